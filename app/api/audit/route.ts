@@ -0,0 +1,23 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listAuditEntries, validateAuditFilter, type AuditFilter } from "@/lib/audit"
+import { requireScope } from "@/lib/api-auth"
+
+const FILTER_PARAMS = ["action", "actor", "account", "targetHost", "outcome", "jobId", "since", "until"] as const
+
+export async function GET(request: NextRequest) {
+  const denied = await requireScope(request, "audit:read")
+  if (denied) return denied
+
+  const params = request.nextUrl.searchParams
+  const filter: AuditFilter = Object.fromEntries(
+    FILTER_PARAMS.filter((name) => params.get(name)).map((name) => [name, params.get(name)]),
+  )
+  if (params.get("limit")) filter.limit = Number(params.get("limit"))
+
+  const validationError = validateAuditFilter(filter)
+  if (validationError) {
+    return NextResponse.json({ status: "error", message: validationError }, { status: 400 })
+  }
+
+  return NextResponse.json({ entries: await listAuditEntries(filter) })
+}
@@ -0,0 +1,38 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createDashboardSession, verifyApiKey } from "@/lib/api-keys"
+import { actorFromPrincipal, ANONYMOUS_ACTOR, recordAudit } from "@/lib/audit"
+import { DASHBOARD_SESSION_COOKIE } from "@/lib/api-auth"
+
+/**
+ * Exchange an API key for a dashboard session cookie, which the browser also sends on EventSource and downloads
+ */
+export async function POST(request: NextRequest) {
+  let body: { key?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ status: "error", message: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const principal = typeof body?.key === "string" && body.key ? await verifyApiKey(body.key.trim()) : null
+  await recordAudit({
+    action: "dashboard.login",
+    outcome: principal ? "success" : "failure",
+    actor: principal ? actorFromPrincipal(principal) : ANONYMOUS_ACTOR,
+    detail: principal ? undefined : "Invalid API key",
+  })
+  if (!principal) {
+    return NextResponse.json({ status: "error", message: "Invalid API key" }, { status: 401 })
+  }
+
+  const { token, expiresAt } = await createDashboardSession(principal)
+  const response = NextResponse.json({ status: "ok", label: principal.label, scopes: principal.scopes })
+  response.cookies.set(DASHBOARD_SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: "strict",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: expiresAt,
+  })
+  return response
+}
@@ -0,0 +1,12 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteDashboardSession } from "@/lib/api-keys"
+import { DASHBOARD_SESSION_COOKIE } from "@/lib/api-auth"
+
+export async function POST(request: NextRequest) {
+  const token = request.cookies.get(DASHBOARD_SESSION_COOKIE)?.value
+  if (token) await deleteDashboardSession(token)
+
+  const response = new NextResponse(null, { status: 204 })
+  response.cookies.delete(DASHBOARD_SESSION_COOKIE)
+  return response
+}
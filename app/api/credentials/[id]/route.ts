@@ -0,0 +1,86 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  deleteCredential,
+  getCredential,
+  updateCredential,
+  validateCredentialInput,
+  type CredentialInput,
+} from "@/lib/credential-vault"
+import { auditHost, recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = await requireScope(request, "credentials:manage")
+  if (denied) return denied
+
+  const { id } = await params
+  const credential = await getCredential(id)
+
+  if (!credential) {
+    return notFound(id)
+  }
+
+  return NextResponse.json(credential)
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = await requireScope(request, "credentials:manage")
+  if (denied) return denied
+
+  const { id } = await params
+  let body: Partial<CredentialInput>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ status: "error", message: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const validationError = validateCredentialInput(body, true)
+  if (validationError) {
+    return NextResponse.json({ status: "error", message: validationError }, { status: 400 })
+  }
+
+  try {
+    const credential = await updateCredential(id, body)
+    if (!credential) return notFound(id)
+
+    await recordAudit({
+      action: "credential.updated",
+      outcome: "success",
+      actor: await requestActor(request),
+      credentialId: id,
+      targetHost: auditHost(credential.targetUrl),
+      // Which fields changed, never their values
+      detail: `Changed ${Object.keys(body).join(", ")}`,
+    })
+    return NextResponse.json(credential)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Credential vault error"
+    return NextResponse.json({ status: "error", message }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = await requireScope(request, "credentials:manage")
+  if (denied) return denied
+
+  const { id } = await params
+
+  if (!(await deleteCredential(id))) {
+    return notFound(id)
+  }
+  await recordAudit({
+    action: "credential.deleted",
+    outcome: "success",
+    actor: await requestActor(request),
+    credentialId: id,
+  })
+
+  return new NextResponse(null, { status: 204 })
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ status: "error", message: `Credential ${id} not found` }, { status: 404 })
+}
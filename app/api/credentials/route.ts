@@ -0,0 +1,55 @@
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  createCredential,
+  listCredentials,
+  validateCredentialInput,
+  type CredentialInput,
+} from "@/lib/credential-vault"
+import { auditHost, recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest) {
+  const denied = await requireScope(request, "credentials:manage")
+  if (denied) return denied
+
+  try {
+    return NextResponse.json({ credentials: await listCredentials() })
+  } catch (error) {
+    return NextResponse.json({ status: "error", message: errorMessage(error) }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireScope(request, "credentials:manage")
+  if (denied) return denied
+
+  let body: CredentialInput
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ status: "error", message: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const validationError = validateCredentialInput(body)
+  if (validationError) {
+    return NextResponse.json({ status: "error", message: validationError }, { status: 400 })
+  }
+
+  try {
+    const credential = await createCredential(body)
+    await recordAudit({
+      action: "credential.created",
+      outcome: "success",
+      actor: await requestActor(request),
+      credentialId: credential.id,
+      targetHost: auditHost(credential.targetUrl),
+    })
+    return NextResponse.json(credential, { status: 201 })
+  } catch (error) {
+    return NextResponse.json({ status: "error", message: errorMessage(error) }, { status: 500 })
+  }
+}
+
+function errorMessage(error: unknown) {
+  return error instanceof Error ? error.message : "Credential vault error"
+}
@@ -0,0 +1,80 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJob, getJobEvents, isJobFinished, subscribeToJob, type SequencedJobEvent } from "@/lib/job-queue"
+import { requireScope } from "@/lib/api-auth"
+
+export const dynamic = "force-dynamic"
+
+const HEARTBEAT_INTERVAL_MS = 15000
+
+/**
+ * Stream a job's progress as Server-Sent Events.
+ * Past events are replayed first; reconnecting clients resume after Last-Event-ID.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+  const job = getJob(id)
+
+  if (!job) {
+    return NextResponse.json({ status: "error", message: `Job ${id} not found` }, { status: 404 })
+  }
+
+  const lastEventId = Number(request.headers.get("last-event-id")) || 0
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false
+      let lastSentId = lastEventId
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        cleanup()
+        controller.close()
+      }
+
+      const send = ({ id: eventId, event }: SequencedJobEvent) => {
+        if (closed || eventId <= lastSentId) return
+        lastSentId = eventId
+        controller.enqueue(encoder.encode(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`))
+        if (event.type === "job_state" && (event.state === "succeeded" || event.state === "failed")) {
+          close()
+        }
+      }
+
+      const unsubscribe = subscribeToJob(id, send)
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"))
+      }, HEARTBEAT_INTERVAL_MS)
+      const onAbort = () => close()
+
+      cleanup = () => {
+        unsubscribe()
+        clearInterval(heartbeat)
+        request.signal.removeEventListener("abort", onAbort)
+      }
+      request.signal.addEventListener("abort", onAbort)
+
+      getJobEvents(id, lastEventId).forEach(send)
+      if (!closed && isJobFinished(job) && lastSentId >= getJobEvents(id).length) {
+        close()
+      }
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJob } from "@/lib/job-queue"
+import { COOKIE_EXPORT_FORMATS, exportCookies, type CookieExportFormat } from "@/lib/cookie-extractor"
+import { auditHost, recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+  const format = request.nextUrl.searchParams.get("format") as CookieExportFormat | null
+
+  if (!format || !COOKIE_EXPORT_FORMATS.includes(format)) {
+    return NextResponse.json(
+      { status: "error", message: `format must be one of: ${COOKIE_EXPORT_FORMATS.join(", ")}` },
+      { status: 400 },
+    )
+  }
+
+  const job = getJob(id)
+  if (!job) {
+    return NextResponse.json({ status: "error", message: `Job ${id} not found` }, { status: 404 })
+  }
+
+  if (job.result?.status !== "success") {
+    return NextResponse.json({ status: "error", message: `Job ${id} has no cookies to export` }, { status: 409 })
+  }
+
+  const cookieRedaction = job.result.redaction?.cookies
+  if (cookieRedaction !== "full") {
+    return NextResponse.json(
+      {
+        status: "error",
+        message: `Cookie values of job ${id} are ${cookieRedaction ?? "redacted"} in responses; run it with redaction.response.fields.cookies set to "full" to export them`,
+      },
+      { status: 409 },
+    )
+  }
+
+  const file = exportCookies(job.result.cookies, format, job.result.targetUrl)
+  await recordAudit({
+    action: "session.exported",
+    outcome: "success",
+    actor: await requestActor(request),
+    jobId: id,
+    account: job.result.session.account,
+    targetHost: auditHost(job.result.targetUrl),
+    detail: `Exported as ${format}`,
+  })
+  return new NextResponse(file.content, {
+    headers: {
+      "Content-Type": `${file.contentType}; charset=utf-8`,
+      "Content-Disposition": `attachment; filename="${file.filename}"`,
+    },
+  })
+}
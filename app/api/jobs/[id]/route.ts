@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { getJob } from "@/lib/job-queue"
+import { requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+  const job = getJob(id)
+
+  if (!job) {
+    return NextResponse.json({ status: "error", message: `Job ${id} not found` }, { status: 404 })
+  }
+
+  return NextResponse.json(job)
+}
@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteApiKey } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireScope(request, "keys:manage")
+  if (denied) return denied
+
+  const { id } = await params
+
+  // Resolved before the key is revoked, in case a key revokes itself
+  const actor = await requestActor(request)
+  if (!(await deleteApiKey(id))) {
+    return NextResponse.json({ status: "error", message: `API key ${id} not found` }, { status: 404 })
+  }
+  await recordAudit({ action: "key.deleted", outcome: "success", actor, keyId: id })
+
+  return new NextResponse(null, { status: 204 })
+}
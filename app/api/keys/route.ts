@@ -0,0 +1,39 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createApiKey, listApiKeys, validateApiKeyInput, type ApiKeyInput } from "@/lib/api-keys"
+import { recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest) {
+  const denied = await requireScope(request, "keys:manage")
+  if (denied) return denied
+
+  return NextResponse.json({ keys: await listApiKeys() })
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireScope(request, "keys:manage")
+  if (denied) return denied
+
+  let body: ApiKeyInput
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ status: "error", message: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const validationError = validateApiKeyInput(body)
+  if (validationError) {
+    return NextResponse.json({ status: "error", message: validationError }, { status: 400 })
+  }
+
+  const created = await createApiKey(body)
+  await recordAudit({
+    action: "key.created",
+    outcome: "success",
+    actor: await requestActor(request),
+    keyId: created.id,
+    detail: `${created.label}: ${created.scopes.join(", ")}`,
+  })
+  // The key itself is only ever returned here
+  return NextResponse.json(created, { status: 201 })
+}
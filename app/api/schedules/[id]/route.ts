@@ -0,0 +1,59 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { deleteSchedule, getSchedule, updateSchedule, validateScheduleInput, type ScheduleInput } from "@/lib/scheduler"
+import { validateRequestUrls } from "@/lib/login-automation"
+import { requireScope } from "@/lib/api-auth"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+  const schedule = await getSchedule(id)
+
+  if (!schedule) {
+    return notFound(id)
+  }
+
+  return NextResponse.json(schedule)
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+  let body: Partial<ScheduleInput>
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ status: "error", message: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const validationError =
+    validateScheduleInput(body, true) ?? (body.request ? await validateRequestUrls(body.request) : null)
+  if (validationError) {
+    return NextResponse.json({ status: "error", message: validationError }, { status: 400 })
+  }
+
+  const schedule = await updateSchedule(id, body)
+  return schedule ? NextResponse.json(schedule) : notFound(id)
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+
+  if (!(await deleteSchedule(id))) {
+    return notFound(id)
+  }
+
+  return new NextResponse(null, { status: 204 })
+}
+
+function notFound(id: string) {
+  return NextResponse.json({ status: "error", message: `Schedule ${id} not found` }, { status: 404 })
+}
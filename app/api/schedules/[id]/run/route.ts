@@ -0,0 +1,25 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { runScheduleNow } from "@/lib/scheduler"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+  const schedule = await runScheduleNow(id, await requestActor(request))
+
+  if (!schedule) {
+    return NextResponse.json({ status: "error", message: `Schedule ${id} not found` }, { status: 404 })
+  }
+
+  return NextResponse.json(
+    {
+      status: "queued",
+      jobId: schedule.lastJobId,
+      statusUrl: `/api/jobs/${schedule.lastJobId}`,
+      schedule,
+    },
+    { status: 202 },
+  )
+}
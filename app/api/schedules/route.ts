@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { createSchedule, listSchedules, validateScheduleInput, type ScheduleInput } from "@/lib/scheduler"
+import { validateRequestUrls } from "@/lib/login-automation"
+import { requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  return NextResponse.json({ schedules: await listSchedules() })
+}
+
+export async function POST(request: NextRequest) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  let body: ScheduleInput
+  try {
+    body = await request.json()
+  } catch {
+    return NextResponse.json({ status: "error", message: "Request body must be valid JSON" }, { status: 400 })
+  }
+
+  const validationError = validateScheduleInput(body) ?? (await validateRequestUrls(body.request))
+  if (validationError) {
+    return NextResponse.json({ status: "error", message: validationError }, { status: 400 })
+  }
+
+  return NextResponse.json(await createSchedule(body), { status: 201 })
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { decodeAccountParam } from "@/lib/session-store"
+import { getPulledCookies } from "@/lib/sinks"
+import { recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ account: string }> }) {
+  const denied = await requireScope(request, "sessions:read")
+  if (denied) return denied
+
+  const { account } = await params
+  const decoded = decodeAccountParam(account)
+  const payload = await getPulledCookies(decoded)
+  await recordAudit({
+    action: "session.pulled",
+    outcome: payload ? "success" : "failure",
+    actor: await requestActor(request),
+    account: decoded,
+    detail: payload ? undefined : "No cookies published",
+  })
+
+  if (!payload) {
+    return NextResponse.json(
+      { status: "error", message: `No cookies published for ${account}; add a "pull" sink to its login request` },
+      { status: 404 },
+    )
+  }
+
+  return NextResponse.json(payload, { headers: { "Cache-Control": "no-store" } })
+}
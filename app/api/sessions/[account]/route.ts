@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { decodeAccountParam, getSessionStatus } from "@/lib/session-store"
+import { requireScope } from "@/lib/api-auth"
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ account: string }> }) {
+  const denied = await requireScope(request, "sessions:read")
+  if (denied) return denied
+
+  const { account } = await params
+  const status = await getSessionStatus(decodeAccountParam(account))
+
+  if (!status) {
+    return NextResponse.json({ status: "error", message: `No stored session for ${account}` }, { status: 404 })
+  }
+
+  return NextResponse.json(status)
+}
@@ -0,0 +1,36 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { replayDelivery } from "@/lib/webhook-outbox"
+import { auditHost, recordAudit } from "@/lib/audit"
+import { requestActor, requireScope } from "@/lib/api-auth"
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const { id } = await params
+
+  let delivery
+  try {
+    delivery = await replayDelivery(id)
+  } catch (err) {
+    return NextResponse.json(
+      { status: "error", message: err instanceof Error ? err.message : String(err) },
+      { status: 409 },
+    )
+  }
+
+  if (!delivery) {
+    return NextResponse.json({ status: "error", message: `Delivery ${id} not found` }, { status: 404 })
+  }
+
+  await recordAudit({
+    action: "delivery.replayed",
+    outcome: delivery.state === "delivered" ? "success" : "failure",
+    actor: await requestActor(request),
+    deliveryId: id,
+    account: delivery.subject,
+    targetHost: auditHost(delivery.url),
+    detail: delivery.lastError,
+  })
+  return NextResponse.json(delivery)
+}
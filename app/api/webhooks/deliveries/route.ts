@@ -0,0 +1,20 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { listDeliveries, type DeliveryState } from "@/lib/webhook-outbox"
+import { requireScope } from "@/lib/api-auth"
+
+const DELIVERY_STATES: DeliveryState[] = ["pending", "delivered", "dead"]
+
+export async function GET(request: NextRequest) {
+  const denied = await requireScope(request, "jobs:run")
+  if (denied) return denied
+
+  const state = request.nextUrl.searchParams.get("state") ?? undefined
+  if (state && !DELIVERY_STATES.includes(state as DeliveryState)) {
+    return NextResponse.json(
+      { status: "error", message: `state must be one of: ${DELIVERY_STATES.join(", ")}` },
+      { status: 400 },
+    )
+  }
+
+  return NextResponse.json({ deliveries: await listDeliveries(state as DeliveryState | undefined) })
+}
@@ -1,5 +1,16 @@
+import { cookies } from "next/headers"
 import { AutomationDashboard } from "@/components/automation-dashboard"
+import { LoginForm } from "@/components/login-form"
+import { DASHBOARD_SESSION_COOKIE } from "@/lib/api-auth"
+import { verifyDashboardSession } from "@/lib/api-keys"
+
+export default async function Home() {
+  const token = (await cookies()).get(DASHBOARD_SESSION_COOKIE)?.value
+  const principal = token ? await verifyDashboardSession(token) : null
+
+  if (!principal) {
+    return <LoginForm />
+  }
 
-export default function Home() {
   return <AutomationDashboard />
 }
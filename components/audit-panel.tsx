@@ -0,0 +1,171 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Loader2, ScrollText } from "lucide-react"
+import type { AuditAction, AuditEntry, AuditOutcome } from "@/lib/audit"
+
+const REFRESH_INTERVAL_MS = 30 * 1000
+const PAGE_SIZE = 50
+
+// lib/audit reads the data directory, so only its types can be imported here
+const ACTIONS: AuditAction[] = [
+  "job.queued",
+  "job.finished",
+  "credential.created",
+  "credential.updated",
+  "credential.deleted",
+  "session.pulled",
+  "session.exported",
+  "delivery.replayed",
+  "key.created",
+  "key.deleted",
+  "dashboard.login",
+]
+
+const SELECT_CLASS = "h-8 rounded-md border border-border bg-background px-2 text-xs"
+
+function subjectOf(entry: AuditEntry) {
+  const parts = [entry.account ?? entry.targetHost]
+  if (entry.credentialId) parts.push(`credential ${entry.credentialId.slice(0, 8)}`)
+  if (entry.keyId) parts.push(`key ${entry.keyId.slice(0, 8)}`)
+  if (entry.deliveryId) parts.push(`delivery ${entry.deliveryId.slice(0, 8)}`)
+  return parts.filter(Boolean).join(" · ") || "—"
+}
+
+export function AuditPanel() {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [action, setAction] = useState<AuditAction | "">("")
+  const [outcome, setOutcome] = useState<AuditOutcome | "">("")
+  const [account, setAccount] = useState("")
+
+  const load = useCallback(async () => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+    if (action) params.set("action", action)
+    if (outcome) params.set("outcome", outcome)
+    if (account.trim()) params.set("account", account.trim())
+
+    try {
+      const response = await fetch(`/api/audit?${params}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || `HTTP ${response.status}`)
+      setEntries(data.entries)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load the audit log")
+    }
+  }, [action, outcome, account])
+
+  useEffect(() => {
+    load()
+    const timer = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [load])
+
+  return (
+    <Card className="border-border bg-card shadow-none">
+      <CardHeader className="border-b border-border/50 bg-muted/30 flex-row items-center justify-between py-4">
+        <div className="flex items-center gap-2">
+          <ScrollText className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm font-semibold uppercase tracking-wider opacity-70">Audit log</CardTitle>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            aria-label="Action"
+            className={SELECT_CLASS}
+            value={action}
+            onChange={(e) => setAction(e.target.value as AuditAction | "")}
+          >
+            <option value="">All actions</option>
+            {ACTIONS.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+          <select
+            aria-label="Outcome"
+            className={SELECT_CLASS}
+            value={outcome}
+            onChange={(e) => setOutcome(e.target.value as AuditOutcome | "")}
+          >
+            <option value="">All outcomes</option>
+            <option value="success">success</option>
+            <option value="failure">failure</option>
+          </select>
+          <Input
+            aria-label="Account"
+            className="h-8 w-48 bg-background border-border text-xs"
+            placeholder="Account, e.g. example.com:alice"
+            value={account}
+            onChange={(e) => setAccount(e.target.value)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        {error && <p className="px-6 pt-4 text-xs text-destructive">{error}</p>}
+
+        {!entries && !error && (
+          <div className="flex items-center gap-2 p-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading audit log...
+          </div>
+        )}
+
+        {entries?.length === 0 && <p className="p-6 text-xs text-muted-foreground">No matching audit entries.</p>}
+
+        {entries && entries.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-left text-muted-foreground uppercase tracking-wider">
+                <tr className="border-b border-border/50">
+                  <th className="px-6 py-3 font-medium">Time</th>
+                  <th className="px-3 py-3 font-medium">Action</th>
+                  <th className="px-3 py-3 font-medium">By</th>
+                  <th className="px-3 py-3 font-medium">Subject</th>
+                  <th className="px-6 py-3 font-medium">Sinks</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map((entry) => (
+                  <tr key={entry.id} className="border-b border-border/50 last:border-0 align-top">
+                    <td className="px-6 py-3 whitespace-nowrap">{new Date(entry.at).toLocaleString()}</td>
+                    <td className="px-3 py-3 space-y-1">
+                      <p className="font-mono">{entry.action}</p>
+                      <Badge
+                        variant={entry.outcome === "failure" ? "destructive" : "secondary"}
+                        className="h-5 text-[10px]"
+                      >
+                        {entry.outcome}
+                      </Badge>
+                    </td>
+                    <td className="px-3 py-3">{entry.actor.label}</td>
+                    <td className="px-3 py-3">
+                      <p className="truncate max-w-[260px]">{subjectOf(entry)}</p>
+                      {entry.detail && (
+                        <p className="text-muted-foreground truncate max-w-[260px]" title={entry.detail}>
+                          {entry.detail}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-6 py-3">
+                      {entry.sinks?.length
+                        ? entry.sinks.map((sink, index) => (
+                            <p key={index} className={sink.delivered ? undefined : "text-destructive"}>
+                              {sink.type}: {sink.target}
+                            </p>
+                          ))
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
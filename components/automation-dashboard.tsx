@@ -8,7 +8,11 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
-import { Loader2, Cookie, Lock, Copy, Check, AlertTriangle, ChevronRight, ShieldCheck } from "lucide-react"
+import { Loader2, Cookie, Lock, Copy, Check, AlertTriangle, ChevronRight, ShieldCheck, Download } from "lucide-react"
+import { RunTimeline } from "@/components/run-timeline"
+import { SchedulesPanel } from "@/components/schedules-panel"
+import { AuditPanel } from "@/components/audit-panel"
+import type { JobEvent } from "@/lib/job-queue"
 
 interface CookieResult {
   name: string
@@ -21,12 +25,17 @@ interface CookieResult {
 }
 
 interface AutomationResult {
-  status: "success" | "error"
+  status: "success" | "login_failed" | "error"
   message?: string
   cookies?: CookieResult[]
   cookieString?: string
   importantCookies?: string[]
   webhookSent?: boolean
+  redaction?: Record<string, "full" | "masked" | "hashed" | "omitted">
+  verification?: {
+    verified: boolean
+    checks: { name: string; passed: boolean; detail: string }[]
+  }
   securityChallenges?: {
     cloudflareDetected: boolean
     captchaDetected: boolean
@@ -35,35 +44,81 @@ interface AutomationResult {
   }
 }
 
+const EXPORT_FORMATS = [
+  { format: "netscape", label: "cookies.txt" },
+  { format: "curl", label: "curl" },
+  { format: "storageState", label: "storageState" },
+  { format: "extension", label: "Extension JSON" },
+] as const
+
 export function AutomationDashboard() {
   const [formData, setFormData] = useState({
     targetUrl: "",
     loginUrl: "",
     username: "",
     password: "",
+    totpSecret: "",
     webhookUrl: "",
   })
+  const [revealValues, setRevealValues] = useState(false)
   const [loading, setLoading] = useState(false)
   const [result, setResult] = useState<AutomationResult | null>(null)
   const [copiedIndex, setCopiedIndex] = useState<number | null>(null)
   const [copiedAll, setCopiedAll] = useState(false)
   const [showAllCookies, setShowAllCookies] = useState(true)
   const [copiedString, setCopiedString] = useState(false)
+  const [timeline, setTimeline] = useState<JobEvent[]>([])
+  const [jobId, setJobId] = useState<string | null>(null)
+
+  const followJob = (jobId: string) =>
+    new Promise<AutomationResult>((resolve) => {
+      const source = new EventSource(`/api/jobs/${jobId}/events`)
+
+      const handleEvent = (e: MessageEvent) => {
+        const event: JobEvent = JSON.parse(e.data)
+        setTimeline((prev) => [...prev, event])
+        if (event.type === "job_state" && event.result) {
+          source.close()
+          resolve(event.result)
+        }
+      }
+
+      for (const type of ["job_state", "step_started", "step_finished", "milestone"]) {
+        source.addEventListener(type, handleEvent)
+      }
+
+      // The browser reconnects on its own; only fall back to polling once it gives up
+      source.onerror = async () => {
+        if (source.readyState !== EventSource.CLOSED) return
+        const jobResponse = await fetch(`/api/jobs/${jobId}`)
+        const job = await jobResponse.json()
+        resolve(jobResponse.ok ? (job.result ?? { status: "error", message: "Lost connection to job" }) : job)
+      }
+    })
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setLoading(true)
     setResult(null)
+    setTimeline([])
+    setJobId(null)
 
     try {
       const response = await fetch("/api/start", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(formData),
+        // Values are masked in the response unless the user asks to see them
+        body: JSON.stringify({ ...formData, ...(revealValues && { redaction: { response: { default: "full" } } }) }),
       })
 
       const data = await response.json()
-      setResult(data)
+      if (!response.ok || !data.jobId) {
+        setResult(data)
+        return
+      }
+
+      setJobId(data.jobId)
+      setResult(await followJob(data.jobId))
     } catch (error) {
       setResult({
         status: "error",
@@ -74,6 +129,11 @@ export function AutomationDashboard() {
     }
   }
 
+  const logout = async () => {
+    await fetch("/api/auth/logout", { method: "POST" })
+    window.location.reload()
+  }
+
   const copyCookie = (cookie: CookieResult, index: number) => {
     navigator.clipboard.writeText(`${cookie.name}=${cookie.value}`)
     setCopiedIndex(index)
@@ -118,6 +178,9 @@ export function AutomationDashboard() {
             <Button variant="ghost" size="sm" className="text-xs">
               Docs
             </Button>
+            <Button variant="ghost" size="sm" className="text-xs" onClick={logout}>
+              Log out
+            </Button>
             <Button
               size="sm"
               className="h-8 rounded-full bg-foreground text-background hover:bg-foreground/90 px-4 text-xs font-medium"
@@ -237,6 +300,23 @@ export function AutomationDashboard() {
                     />
                   </div>
 
+                  <div className="space-y-2">
+                    <Label
+                      htmlFor="totpSecret"
+                      className="text-xs font-medium text-muted-foreground uppercase tracking-wider"
+                    >
+                      TOTP Secret (optional)
+                    </Label>
+                    <Input
+                      id="totpSecret"
+                      type="password"
+                      className="bg-background border-border focus-visible:ring-1 focus-visible:ring-foreground transition-all h-10"
+                      placeholder="Base32 secret or otpauth:// URI"
+                      value={formData.totpSecret}
+                      onChange={(e) => setFormData({ ...formData, totpSecret: e.target.value })}
+                    />
+                  </div>
+
                   <div className="space-y-2">
                     <Label
                       htmlFor="webhookUrl"
@@ -254,6 +334,19 @@ export function AutomationDashboard() {
                     />
                   </div>
 
+                  <div className="flex items-center gap-2">
+                    <input
+                      id="revealValues"
+                      type="checkbox"
+                      className="h-4 w-4 accent-foreground"
+                      checked={revealValues}
+                      onChange={(e) => setRevealValues(e.target.checked)}
+                    />
+                    <Label htmlFor="revealValues" className="text-xs text-muted-foreground">
+                      Show full cookie values in the result (masked by default)
+                    </Label>
+                  </div>
+
                   <Button
                     type="submit"
                     className="w-full h-11 bg-foreground text-background hover:bg-foreground/90 font-medium"
@@ -334,14 +427,12 @@ export function AutomationDashboard() {
                 )}
 
                 {loading && (
-                  <div className="flex h-full flex-col items-center justify-center gap-4">
-                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
-                    <div className="text-center">
-                      <p className="font-medium text-muted-foreground">Logging in and extracting cookies...</p>
-                      <p className="mt-1 text-xs text-muted-foreground">
-                        Capturing ALL cookies with complete values - No truncation or limits
-                      </p>
+                  <div className="p-6 space-y-4">
+                    <div className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin text-primary" />
+                      <p className="text-sm font-medium text-muted-foreground">Logging in and extracting cookies...</p>
                     </div>
+                    <RunTimeline events={timeline} />
                   </div>
                 )}
 
@@ -411,13 +502,40 @@ export function AutomationDashboard() {
                       )}
                       {result.webhookSent !== undefined && (
                         <Badge variant={result.webhookSent ? "default" : "secondary"}>
-                          {result.webhookSent ? "Webhook Sent ✓" : "Webhook Failed"}
+                          {result.webhookSent
+                            ? "Webhook Sent ✓"
+                            : result.status === "login_failed"
+                              ? "Webhook Not Sent"
+                              : "Webhook Retrying"}
                         </Badge>
                       )}
                     </div>
 
                     {result.message && <p className="text-sm text-muted-foreground">{result.message}</p>}
 
+                    {result.redaction && result.redaction.cookies !== "full" && (
+                      <p className="text-xs text-muted-foreground">
+                        Cookie values are {result.redaction.cookies} in this view; sinks get them in full unless
+                        configured otherwise. Tick &quot;Show full cookie values&quot; to see and download them here.
+                      </p>
+                    )}
+
+                    {result.verification && result.verification.checks.length > 0 && (
+                      <ul className="space-y-1 rounded-lg border border-border p-3">
+                        {result.verification.checks.map((check, i) => (
+                          <li key={i} className="flex items-center gap-2 text-xs">
+                            {check.passed ? (
+                              <Check className="h-3 w-3 text-primary" />
+                            ) : (
+                              <AlertTriangle className="h-3 w-3 text-destructive" />
+                            )}
+                            <span className="font-mono text-muted-foreground">{check.name}</span>
+                            <span>{check.detail}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+
                     {result.importantCookies && result.importantCookies.length > 0 && (
                       <div className="space-y-2 rounded-lg border-2 border-primary/30 bg-primary/10 p-4">
                         <div className="flex items-center gap-2">
@@ -570,6 +688,19 @@ export function AutomationDashboard() {
                       </div>
                     )}
 
+                    {jobId && result.status === "success" && result.redaction?.cookies === "full" && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="text-sm font-semibold mr-1">Download:</p>
+                        {EXPORT_FORMATS.map(({ format, label }) => (
+                          <Button key={format} size="sm" variant="outline" asChild>
+                            <a href={`/api/jobs/${jobId}/export?format=${format}`} download>
+                              <Download className="mr-1 h-3 w-3" /> {label}
+                            </a>
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+
                     {result.cookieString && (
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
@@ -592,7 +723,10 @@ export function AutomationDashboard() {
                           </pre>
                           <p className="text-xs text-muted-foreground">
                             Total length: <span className="font-bold text-primary">{result.cookieString.length}</span>{" "}
-                            characters - Complete cookie string ready for HTTP Cookie header (all values included)
+                            characters -{" "}
+                            {result.redaction?.cookieString === "full"
+                              ? "Complete cookie string ready for HTTP Cookie header (all values included)"
+                              : `values are ${result.redaction?.cookieString ?? "redacted"}`}
                           </p>
                         </div>
                       </div>
@@ -603,6 +737,10 @@ export function AutomationDashboard() {
             </Card>
           </div>
         </div>
+
+        <SchedulesPanel />
+
+        <AuditPanel />
       </div>
     </div>
   )
@@ -0,0 +1,83 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Cookie, Loader2 } from "lucide-react"
+
+export function LoginForm() {
+  const router = useRouter()
+  const [key, setKey] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setError(null)
+
+    try {
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ key }),
+      })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || `HTTP ${response.status}`)
+      }
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Login failed")
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-background text-foreground font-sans flex items-center justify-center p-6">
+      <Card className="w-full max-w-sm border-border bg-card shadow-none">
+        <CardHeader className="border-b border-border/50 bg-muted/30 pb-4">
+          <div className="flex items-center gap-2">
+            <div className="w-6 h-6 bg-foreground rounded-full flex items-center justify-center">
+              <Cookie className="w-4 h-4 text-background" />
+            </div>
+            <CardTitle className="text-sm font-semibold uppercase tracking-wider opacity-70">Sign in</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent className="pt-6">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="apiKey" className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
+                API Key
+              </Label>
+              <Input
+                id="apiKey"
+                type="password"
+                autoComplete="current-password"
+                className="bg-background border-border focus-visible:ring-1 focus-visible:ring-foreground transition-all h-10"
+                placeholder="lak_... or ADMIN_API_KEY"
+                value={key}
+                onChange={(e) => setKey(e.target.value)}
+                required
+              />
+            </div>
+            {error && <p className="text-xs text-destructive">{error}</p>}
+            <Button
+              type="submit"
+              className="w-full h-10 bg-foreground text-background hover:bg-foreground/90 font-medium"
+              disabled={loading}
+            >
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : "Sign in"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
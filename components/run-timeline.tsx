@@ -0,0 +1,58 @@
+"use client"
+
+import { Loader2, Check, AlertTriangle, Circle } from "lucide-react"
+import type { JobEvent } from "@/lib/job-queue"
+import type { StepTiming } from "@/lib/login-automation"
+
+interface RunTimelineProps {
+  events: JobEvent[]
+}
+
+export function RunTimeline({ events }: RunTimelineProps) {
+  const steps = new Map<string, StepTiming>()
+  const milestones = new Map<string, string[]>()
+  let queued = false
+
+  for (const event of events) {
+    if (event.type === "job_state") queued = event.state === "queued"
+    if (event.type === "step_started" || event.type === "step_finished") {
+      steps.set(event.step.name, event.step)
+    }
+    if (event.type === "milestone" && event.step) {
+      milestones.set(event.step, [...(milestones.get(event.step) ?? []), event.message])
+    }
+  }
+
+  if (steps.size === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        {queued ? "Waiting for a free browser slot..." : "Starting browser..."}
+      </p>
+    )
+  }
+
+  return (
+    <ol className="space-y-3 border-l border-border pl-4">
+      {Array.from(steps.values()).map((step) => (
+        <li key={step.name} className="space-y-1">
+          <div className="flex items-center gap-2">
+            {step.status === "running" && <Loader2 className="h-3.5 w-3.5 animate-spin text-primary" />}
+            {step.status === "succeeded" && <Check className="h-3.5 w-3.5 text-green-500" />}
+            {step.status === "failed" && <AlertTriangle className="h-3.5 w-3.5 text-destructive" />}
+            <span className="font-mono text-xs font-semibold">{step.name}</span>
+            {step.durationMs !== undefined && (
+              <span className="text-[10px] text-muted-foreground">{(step.durationMs / 1000).toFixed(1)}s</span>
+            )}
+          </div>
+          {step.error && <p className="text-xs text-destructive">{step.error}</p>}
+          {(milestones.get(step.name) ?? []).map((message, i) => (
+            <div key={i} className="flex items-start gap-2 pl-5 text-xs text-muted-foreground">
+              <Circle className="mt-1 h-1.5 w-1.5 shrink-0 fill-current" />
+              <span className="break-all">{message}</span>
+            </div>
+          ))}
+        </li>
+      ))}
+    </ol>
+  )
+}
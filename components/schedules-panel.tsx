@@ -0,0 +1,165 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { CalendarClock, Loader2, Play, Trash2 } from "lucide-react"
+import type { ScheduleView } from "@/lib/scheduler"
+
+const REFRESH_INTERVAL_MS = 30 * 1000
+
+function formatTime(value?: string) {
+  return value ? new Date(value).toLocaleString() : "—"
+}
+
+export function SchedulesPanel() {
+  const [schedules, setSchedules] = useState<ScheduleView[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const response = await fetch("/api/schedules")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || `HTTP ${response.status}`)
+      setSchedules(data.schedules)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not load schedules")
+    }
+  }, [])
+
+  useEffect(() => {
+    load()
+    const timer = setInterval(load, REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [load])
+
+  const act = async (id: string, input: RequestInfo, init: RequestInit) => {
+    setBusyId(id)
+    try {
+      const response = await fetch(input, init)
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.message || `HTTP ${response.status}`)
+      }
+      await load()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Request failed")
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Card className="border-border bg-card shadow-none">
+      <CardHeader className="border-b border-border/50 bg-muted/30 flex-row items-center justify-between py-4">
+        <div className="flex items-center gap-2">
+          <CalendarClock className="h-4 w-4 text-primary" />
+          <CardTitle className="text-sm font-semibold uppercase tracking-wider opacity-70">Schedules</CardTitle>
+        </div>
+        {schedules && (
+          <Badge variant="outline" className="h-6 px-2 rounded-full border-border bg-background text-[10px] font-mono">
+            {schedules.length} SCHEDULES
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="p-0">
+        {error && <p className="px-6 pt-4 text-xs text-destructive">{error}</p>}
+
+        {!schedules && !error && (
+          <div className="flex items-center gap-2 p-6 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" /> Loading schedules...
+          </div>
+        )}
+
+        {schedules?.length === 0 && (
+          <p className="p-6 text-xs text-muted-foreground">
+            No schedules yet. Create one with <code className="font-mono">POST /api/schedules</code>.
+          </p>
+        )}
+
+        {schedules && schedules.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead className="text-left text-muted-foreground uppercase tracking-wider">
+                <tr className="border-b border-border/50">
+                  <th className="px-6 py-3 font-medium">Name</th>
+                  <th className="px-3 py-3 font-medium">Cron</th>
+                  <th className="px-3 py-3 font-medium">Next run</th>
+                  <th className="px-3 py-3 font-medium">Last run</th>
+                  <th className="px-6 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((schedule) => (
+                  <tr key={schedule.id} className="border-b border-border/50 last:border-0">
+                    <td className="px-6 py-3">
+                      <p className="font-medium">{schedule.name}</p>
+                      <p className="text-muted-foreground truncate max-w-[220px]">{schedule.request.targetUrl}</p>
+                    </td>
+                    <td className="px-3 py-3 font-mono">
+                      {schedule.cron}
+                      {schedule.timezone && <span className="text-muted-foreground"> ({schedule.timezone})</span>}
+                    </td>
+                    <td className="px-3 py-3">{schedule.enabled ? formatTime(schedule.nextRunAt) : "Paused"}</td>
+                    <td className="px-3 py-3 space-y-1">
+                      <p>{formatTime(schedule.lastRunAt)}</p>
+                      {schedule.lastJobState && (
+                        <Badge
+                          variant={schedule.lastJobState === "failed" ? "destructive" : "secondary"}
+                          className="h-5 text-[10px]"
+                        >
+                          {schedule.lastJobState}
+                        </Badge>
+                      )}
+                      {schedule.lastSkipReason && <p className="text-muted-foreground">{schedule.lastSkipReason}</p>}
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs"
+                          disabled={busyId === schedule.id}
+                          onClick={() =>
+                            act(schedule.id, `/api/schedules/${schedule.id}`, {
+                              method: "PATCH",
+                              headers: { "Content-Type": "application/json" },
+                              body: JSON.stringify({ enabled: !schedule.enabled }),
+                            })
+                          }
+                        >
+                          {schedule.enabled ? "Pause" : "Resume"}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-7 text-xs"
+                          disabled={busyId === schedule.id}
+                          onClick={() => act(schedule.id, `/api/schedules/${schedule.id}/run`, { method: "POST" })}
+                        >
+                          <Play className="mr-1 h-3 w-3" /> Run now
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          className="h-7 text-xs text-destructive"
+                          disabled={busyId === schedule.id}
+                          onClick={() => act(schedule.id, `/api/schedules/${schedule.id}`, { method: "DELETE" })}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
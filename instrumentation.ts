@@ -0,0 +1,7 @@
+export async function register() {
+  // The scheduler needs Node APIs and a long-lived process; skip the edge runtime
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("@/lib/scheduler")
+    startScheduler()
+  }
+}
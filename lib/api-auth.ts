@@ -0,0 +1,67 @@
+// Authentication of API requests by API key, bearer token or dashboard session cookie
+
+import { type NextRequest, NextResponse } from "next/server"
+import {
+  isAuthConfigured,
+  verifyApiKey,
+  verifyDashboardSession,
+  type ApiPrincipal,
+  type ApiScope,
+} from "@/lib/api-keys"
+import { actorFromPrincipal, ANONYMOUS_ACTOR, type AuditActor } from "@/lib/audit"
+
+export const DASHBOARD_SESSION_COOKIE = "login_automation_session"
+
+/**
+ * Find out who sent a request: "Authorization: Bearer <key>", "X-API-Key: <key>" or the dashboard cookie
+ * @param request - Incoming request
+ * @returns The authenticated key, or null when none was presented or it is unknown
+ */
+export async function authenticateRequest(request: NextRequest): Promise<ApiPrincipal | null> {
+  const bearer = request.headers.get("authorization")?.match(/^Bearer\s+(.+)$/i)?.[1]
+  const key = bearer ?? request.headers.get("x-api-key")
+  if (key) return verifyApiKey(key.trim())
+
+  const sessionToken = request.cookies.get(DASHBOARD_SESSION_COOKIE)?.value
+  return sessionToken ? verifyDashboardSession(sessionToken) : null
+}
+
+/**
+ * Require an authenticated request with a scope. Routes return the response when there is one:
+ * 401 when no valid key was presented, 403 when the key lacks the scope.
+ * @param request - Incoming request
+ * @param scope - Scope the route needs
+ * @returns Error response, or null when the request may proceed
+ */
+export async function requireScope(request: NextRequest, scope: ApiScope): Promise<NextResponse | null> {
+  const principal = await authenticateRequest(request)
+
+  if (!principal) {
+    const message = (await isAuthConfigured())
+      ? "Authentication required: send an API key as a Bearer token or X-API-Key header"
+      : "API authentication is not configured: set ADMIN_API_KEY"
+    return NextResponse.json(
+      { status: "error", message },
+      { status: 401, headers: { "WWW-Authenticate": 'Bearer realm="login-automation"' } },
+    )
+  }
+
+  if (!principal.scopes.includes(scope)) {
+    return NextResponse.json(
+      { status: "error", message: `API key "${principal.label}" lacks the ${scope} scope` },
+      { status: 403 },
+    )
+  }
+
+  return null
+}
+
+/**
+ * Who sent a request, for the audit log. Call it after requireScope has let the request through.
+ * @param request - Incoming request
+ * @returns The key the request was authenticated with
+ */
+export async function requestActor(request: NextRequest): Promise<AuditActor> {
+  const principal = await authenticateRequest(request)
+  return principal ? actorFromPrincipal(principal) : ANONYMOUS_ACTOR
+}
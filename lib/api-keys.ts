@@ -0,0 +1,214 @@
+// API keys and dashboard sessions; only SHA-256 hashes of keys and session tokens are stored
+
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto"
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+
+export type ApiScope = "jobs:run" | "sessions:read" | "credentials:manage" | "keys:manage" | "audit:read"
+
+export const API_SCOPES: ApiScope[] = ["jobs:run", "sessions:read", "credentials:manage", "keys:manage", "audit:read"]
+
+export interface ApiKeyInput {
+  label: string
+  scopes: ApiScope[]
+}
+
+/** What the API returns for a key: never the key or its hash */
+export interface ApiKeySummary {
+  id: string
+  label: string
+  scopes: ApiScope[]
+  /** First characters of the key, to tell keys apart */
+  prefix: string
+  createdAt: string
+  lastUsedAt?: string
+}
+
+/** Who a request is authenticated as */
+export interface ApiPrincipal {
+  keyId: string
+  label: string
+  scopes: ApiScope[]
+}
+
+interface StoredApiKey extends ApiKeySummary {
+  hash: string
+}
+
+interface DashboardSession {
+  keyId: string
+  expiresAt: string
+}
+
+type KeyFile = Record<string, StoredApiKey>
+type SessionFile = Record<string, DashboardSession>
+
+const KEYS_FILE = "api-keys.json"
+const DASHBOARD_SESSIONS_FILE = "dashboard-sessions.json"
+const KEY_PREFIX = "lak_"
+const ADMIN_KEY_ID = "admin"
+const DASHBOARD_SESSION_TTL_MS = 12 * 60 * 60 * 1000
+// lastUsedAt is only rewritten this often, so busy keys do not rewrite the key file on every request
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+
+/**
+ * Validate a key before it is created
+ * @param input - Key fields from a request
+ * @returns Error message, or null when the key is usable
+ */
+export function validateApiKeyInput(input: Partial<ApiKeyInput>): string | null {
+  if (!input || typeof input !== "object") {
+    return "Request body must be an API key object"
+  }
+  if (!input.label || typeof input.label !== "string") {
+    return "label is required"
+  }
+  if (!Array.isArray(input.scopes) || input.scopes.length === 0) {
+    return `scopes must be a non-empty array of: ${API_SCOPES.join(", ")}`
+  }
+  const unknown = input.scopes.find((scope) => !API_SCOPES.includes(scope))
+  if (unknown) {
+    return `Unknown scope ${unknown}; use one of: ${API_SCOPES.join(", ")}`
+  }
+  return null
+}
+
+/**
+ * Whether any way to authenticate exists, i.e. ADMIN_API_KEY is set or keys were created
+ * @returns True when authentication is configured
+ */
+export async function isAuthConfigured(): Promise<boolean> {
+  if (process.env.ADMIN_API_KEY) return true
+  const keys = await readJsonFile<KeyFile>(KEYS_FILE, {})
+  return Object.keys(keys).length > 0
+}
+
+/**
+ * List keys without their hashes
+ * @returns Key summaries, oldest first
+ */
+export async function listApiKeys(): Promise<ApiKeySummary[]> {
+  const keys = await readJsonFile<KeyFile>(KEYS_FILE, {})
+  return Object.values(keys).map(toSummary)
+}
+
+/**
+ * Create a key. The plaintext key is only returned here.
+ * @param input - Validated key fields
+ * @returns Summary of the key and the key itself
+ */
+export async function createApiKey(input: ApiKeyInput): Promise<ApiKeySummary & { key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString("base64url")}`
+  const stored: StoredApiKey = {
+    id: randomUUID(),
+    label: input.label,
+    scopes: [...new Set(input.scopes)],
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    createdAt: new Date().toISOString(),
+    hash: hashSecret(key),
+  }
+
+  await updateJsonFile<KeyFile>(KEYS_FILE, {}, (keys) => {
+    keys[stored.id] = stored
+  })
+  return { ...toSummary(stored), key }
+}
+
+/**
+ * Revoke a key; dashboard sessions opened with it stop working too
+ * @param id - Key ID
+ * @returns Whether a key was removed
+ */
+export async function deleteApiKey(id: string): Promise<boolean> {
+  let deleted = false
+  await updateJsonFile<KeyFile>(KEYS_FILE, {}, (keys) => {
+    // Own entries only, so IDs like "constructor" do not count as existing keys
+    deleted = Object.hasOwn(keys, id)
+    delete keys[id]
+  })
+  return deleted
+}
+
+/**
+ * Look up the key a request presented
+ * @param key - Plaintext key from the Authorization or X-API-Key header
+ * @returns Who the key belongs to, or null when it is unknown
+ */
+export async function verifyApiKey(key: string): Promise<ApiPrincipal | null> {
+  const adminKey = process.env.ADMIN_API_KEY
+  if (adminKey && safeEqual(hashSecret(key), hashSecret(adminKey))) {
+    return { keyId: ADMIN_KEY_ID, label: "ADMIN_API_KEY", scopes: [...API_SCOPES] }
+  }
+
+  const hash = hashSecret(key)
+  const keys = await readJsonFile<KeyFile>(KEYS_FILE, {})
+  const stored = Object.values(keys).find((k) => safeEqual(k.hash, hash))
+  if (!stored) return null
+
+  const now = Date.now()
+  if (!stored.lastUsedAt || now - new Date(stored.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    await updateJsonFile<KeyFile>(KEYS_FILE, {}, (current) => {
+      if (Object.hasOwn(current, stored.id)) current[stored.id].lastUsedAt = new Date(now).toISOString()
+    })
+  }
+  return { keyId: stored.id, label: stored.label, scopes: stored.scopes }
+}
+
+/**
+ * Open a dashboard session for a verified key
+ * @param principal - Key the user logged in with
+ * @returns Session token for the cookie and when it expires
+ */
+export async function createDashboardSession(principal: ApiPrincipal): Promise<{ token: string; expiresAt: Date }> {
+  const token = randomBytes(32).toString("base64url")
+  const now = Date.now()
+  const expiresAt = new Date(now + DASHBOARD_SESSION_TTL_MS)
+
+  await updateJsonFile<SessionFile>(DASHBOARD_SESSIONS_FILE, {}, (sessions) => {
+    for (const [hash, session] of Object.entries(sessions)) {
+      if (new Date(session.expiresAt).getTime() <= now) delete sessions[hash]
+    }
+    sessions[hashSecret(token)] = { keyId: principal.keyId, expiresAt: expiresAt.toISOString() }
+  })
+  return { token, expiresAt }
+}
+
+/**
+ * Look up the key behind a dashboard session cookie
+ * @param token - Session token from the cookie
+ * @returns Who the session belongs to, or null when it is unknown, expired or its key was revoked
+ */
+export async function verifyDashboardSession(token: string): Promise<ApiPrincipal | null> {
+  const sessions = await readJsonFile<SessionFile>(DASHBOARD_SESSIONS_FILE, {})
+  const hash = hashSecret(token)
+  const session = Object.hasOwn(sessions, hash) ? sessions[hash] : undefined
+  if (!session || new Date(session.expiresAt).getTime() <= Date.now()) return null
+
+  if (session.keyId === ADMIN_KEY_ID) {
+    return process.env.ADMIN_API_KEY ? { keyId: ADMIN_KEY_ID, label: "ADMIN_API_KEY", scopes: [...API_SCOPES] } : null
+  }
+  const keys = await readJsonFile<KeyFile>(KEYS_FILE, {})
+  const stored = Object.hasOwn(keys, session.keyId) ? keys[session.keyId] : undefined
+  return stored ? { keyId: stored.id, label: stored.label, scopes: stored.scopes } : null
+}
+
+/**
+ * End a dashboard session
+ * @param token - Session token from the cookie
+ */
+export async function deleteDashboardSession(token: string): Promise<void> {
+  await updateJsonFile<SessionFile>(DASHBOARD_SESSIONS_FILE, {}, (sessions) => {
+    delete sessions[hashSecret(token)]
+  })
+}
+
+function hashSecret(value: string): string {
+  return createHash("sha256").update(value).digest("hex")
+}
+
+function safeEqual(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b))
+}
+
+function toSummary({ hash: _hash, ...summary }: StoredApiKey): ApiKeySummary {
+  return summary
+}
@@ -0,0 +1,205 @@
+// Append-only audit log of login runs, credential changes and cookie hand-offs; entries never hold secret values
+
+import { randomUUID } from "crypto"
+import { appendJsonLine, readJsonLines } from "@/lib/data-store"
+import { logger } from "@/lib/logger"
+import type { ApiPrincipal } from "@/lib/api-keys"
+import type { SinkResult } from "@/lib/sinks"
+
+export type AuditAction =
+  | "job.queued"
+  | "job.finished"
+  | "credential.created"
+  | "credential.updated"
+  | "credential.deleted"
+  | "session.pulled"
+  | "session.exported"
+  | "delivery.replayed"
+  | "key.created"
+  | "key.deleted"
+  | "dashboard.login"
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "job.queued",
+  "job.finished",
+  "credential.created",
+  "credential.updated",
+  "credential.deleted",
+  "session.pulled",
+  "session.exported",
+  "delivery.replayed",
+  "key.created",
+  "key.deleted",
+  "dashboard.login",
+]
+
+export type AuditOutcome = "success" | "failure"
+
+export interface AuditActor {
+  /** "api_key" for a client key or dashboard session, "system" for schedules and refreshes, "anonymous" for failed sign-ins */
+  type: "api_key" | "system" | "anonymous"
+  /** Key ID, "schedule:<id>" or "session-refresh" */
+  id: string
+  label: string
+}
+
+/** Where a run's cookies went; webhook targets are reduced to their host */
+export interface AuditSinkDelivery {
+  type: string
+  target: string
+  delivered: boolean
+}
+
+export interface AuditEntry {
+  id: string
+  at: string
+  action: AuditAction
+  outcome: AuditOutcome
+  actor: AuditActor
+  account?: string
+  targetHost?: string
+  jobId?: string
+  scheduleId?: string
+  credentialId?: string
+  deliveryId?: string
+  keyId?: string
+  sinks?: AuditSinkDelivery[]
+  /** Short explanation, e.g. why a job failed */
+  detail?: string
+}
+
+export interface AuditFilter {
+  action?: AuditAction
+  /** Actor ID, e.g. an API key ID */
+  actor?: string
+  account?: string
+  targetHost?: string
+  outcome?: AuditOutcome
+  jobId?: string
+  /** Only entries at or after this time */
+  since?: string
+  /** Only entries before this time */
+  until?: string
+  limit?: number
+}
+
+export const SESSION_REFRESH_ACTOR: AuditActor = { type: "system", id: "session-refresh", label: "Session refresh" }
+
+export const ANONYMOUS_ACTOR: AuditActor = { type: "anonymous", id: "anonymous", label: "Anonymous" }
+
+const AUDIT_FILE = "audit.jsonl"
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 1000
+const MAX_DETAIL_LENGTH = 300
+
+/**
+ * Audit actor for an authenticated API key
+ * @param principal - Key the request was authenticated with
+ * @returns The actor
+ */
+export function actorFromPrincipal(principal: ApiPrincipal): AuditActor {
+  return { type: "api_key", id: principal.keyId, label: principal.label }
+}
+
+/**
+ * Audit actor for a schedule's own timed runs
+ * @param schedule - Schedule that started the run
+ * @returns The actor
+ */
+export function scheduleActor(schedule: { id: string; name: string }): AuditActor {
+  return { type: "system", id: `schedule:${schedule.id}`, label: `Schedule ${schedule.name}` }
+}
+
+/**
+ * Append an entry to the audit log. A failed write is logged rather than thrown,
+ * so the action it describes is not undone after the fact.
+ * @param entry - What happened, without ID and time
+ */
+export async function recordAudit(entry: Omit<AuditEntry, "id" | "at">): Promise<void> {
+  const stored: AuditEntry = {
+    id: randomUUID(),
+    at: new Date().toISOString(),
+    ...entry,
+    detail: entry.detail?.slice(0, MAX_DETAIL_LENGTH),
+  }
+  try {
+    await appendJsonLine(AUDIT_FILE, stored)
+  } catch (err) {
+    logger.error(`Could not write audit entry ${stored.action}`, { error: err })
+  }
+}
+
+/**
+ * Validate audit log filters from a query string
+ * @param filter - Parsed filters
+ * @returns Error message, or null when the filters are usable
+ */
+export function validateAuditFilter(filter: AuditFilter): string | null {
+  if (filter.action !== undefined && !AUDIT_ACTIONS.includes(filter.action)) {
+    return `action must be one of: ${AUDIT_ACTIONS.join(", ")}`
+  }
+  if (filter.outcome !== undefined && filter.outcome !== "success" && filter.outcome !== "failure") {
+    return "outcome must be success or failure"
+  }
+  for (const key of ["since", "until"] as const) {
+    if (filter[key] !== undefined && Number.isNaN(new Date(filter[key]!).getTime())) {
+      return `${key} must be an ISO 8601 date`
+    }
+  }
+  if (filter.limit !== undefined && (!Number.isInteger(filter.limit) || filter.limit < 1 || filter.limit > MAX_LIMIT)) {
+    return `limit must be a whole number between 1 and ${MAX_LIMIT}`
+  }
+  return null
+}
+
+/**
+ * Read audit entries matching the filters
+ * @param filter - Validated filters; every given filter must match
+ * @returns Matching entries, newest first, at most filter.limit (default 100)
+ */
+export async function listAuditEntries(filter: AuditFilter = {}): Promise<AuditEntry[]> {
+  const since = filter.since ? new Date(filter.since).getTime() : undefined
+  const until = filter.until ? new Date(filter.until).getTime() : undefined
+  const targetHost = filter.targetHost?.toLowerCase()
+
+  const matches = (await readJsonLines<AuditEntry>(AUDIT_FILE)).filter((entry) => {
+    const at = new Date(entry.at).getTime()
+    return (
+      (!filter.action || entry.action === filter.action) &&
+      (!filter.actor || entry.actor.id === filter.actor) &&
+      (!filter.account || entry.account === filter.account) &&
+      (!targetHost || entry.targetHost === targetHost) &&
+      (!filter.outcome || entry.outcome === filter.outcome) &&
+      (!filter.jobId || entry.jobId === filter.jobId) &&
+      (since === undefined || at >= since) &&
+      (until === undefined || at < until)
+    )
+  })
+  return matches.reverse().slice(0, filter.limit ?? DEFAULT_LIMIT)
+}
+
+/**
+ * Host of a URL for the audit log
+ * @param url - Target or login URL
+ * @returns Lowercase host name, or undefined when the URL cannot be parsed
+ */
+export function auditHost(url?: string): string | undefined {
+  try {
+    return url ? new URL(url).hostname.toLowerCase() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Where a run delivered its cookies, without webhook paths and queries, which may carry tokens
+ * @param results - Sink results of the run
+ * @returns One entry per sink
+ */
+export function auditSinks(results: SinkResult[]): AuditSinkDelivery[] {
+  return results.map((result) => ({
+    type: result.type,
+    target: result.type === "n8n" || result.type === "webhook" ? (auditHost(result.target) ?? "") : result.target,
+    delivered: result.delivered,
+  }))
+}
@@ -0,0 +1,110 @@
+// Browser launch profiles: TLS and site isolation stay on unless a job opts into a relaxed profile
+
+import type { BrowserContextOptions, LaunchOptions } from "playwright"
+
+export type BrowserProfileName = "secure" | "self-signed" | "insecure"
+
+export interface BrowserProfile {
+  name: BrowserProfileName
+  description: string
+  /** Chromium flags added to the ones every profile uses */
+  args: string[]
+  /** Accept invalid, expired and self-signed certificates */
+  ignoreHTTPSErrors: boolean
+}
+
+export const DEFAULT_BROWSER_PROFILE: BrowserProfileName = "secure"
+
+export const BROWSER_PROFILES: Record<BrowserProfileName, BrowserProfile> = {
+  secure: {
+    name: "secure",
+    description: "Certificates are verified, same-origin policy and site isolation are on",
+    args: [],
+    ignoreHTTPSErrors: false,
+  },
+  "self-signed": {
+    name: "self-signed",
+    description: "Accepts self-signed and otherwise invalid certificates, e.g. for an internal host",
+    args: ["--ignore-certificate-errors"],
+    ignoreHTTPSErrors: true,
+  },
+  insecure: {
+    name: "insecure",
+    description:
+      "Invalid certificates, mixed content, no same-origin policy and no site isolation; only for sites that fail otherwise",
+    args: [
+      "--ignore-certificate-errors",
+      "--allow-running-insecure-content",
+      "--disable-web-security",
+      "--disable-features=IsolateOrigins,site-per-process",
+      "--single-process",
+    ],
+    ignoreHTTPSErrors: true,
+  },
+}
+
+// Flags for running headless in a container and looking less automated; none of them weaken TLS or site isolation.
+// The container runs Chromium as root, which its sandbox refuses, so every profile runs without the OS sandbox.
+const COMMON_ARGS = [
+  "--no-sandbox",
+  "--disable-setuid-sandbox",
+  "--disable-dev-shm-usage",
+  "--disable-gpu",
+  "--disable-blink-features=AutomationControlled",
+  "--disable-extensions",
+  "--no-first-run",
+  "--no-zygote",
+  "--disable-background-networking",
+  "--disable-default-apps",
+  "--disable-sync",
+  "--disable-translate",
+  "--hide-scrollbars",
+  "--metrics-recording-only",
+  "--mute-audio",
+  "--no-default-browser-check",
+  "--safebrowsing-disable-auto-update",
+  "--disable-automation",
+  "--disable-infobars",
+  "--window-size=1920,1080",
+]
+
+/**
+ * Validate a browser profile name from a request
+ * @param name - Profile name
+ * @returns Error message, or null when the profile exists
+ */
+export function validateBrowserProfile(name: unknown): string | null {
+  if (typeof name !== "string" || !Object.hasOwn(BROWSER_PROFILES, name)) {
+    return `browserProfile must be one of: ${Object.keys(BROWSER_PROFILES).join(", ")}`
+  }
+  return null
+}
+
+/**
+ * Look up the profile a job runs with
+ * @param name - Validated profile name; the secure profile when unset or unknown
+ * @returns The profile
+ */
+export function resolveBrowserProfile(name?: BrowserProfileName): BrowserProfile {
+  return name && Object.hasOwn(BROWSER_PROFILES, name)
+    ? BROWSER_PROFILES[name]
+    : BROWSER_PROFILES[DEFAULT_BROWSER_PROFILE]
+}
+
+/**
+ * Options for chromium.launch()
+ * @param profile - Profile the job runs with
+ * @returns Launch options
+ */
+export function launchOptions(profile: BrowserProfile): LaunchOptions {
+  return { headless: true, args: [...COMMON_ARGS, ...profile.args] }
+}
+
+/**
+ * Options for browser.newContext() that depend on the profile
+ * @param profile - Profile the job runs with
+ * @returns Context options to merge into the rest
+ */
+export function contextOptions(profile: BrowserProfile): Pick<BrowserContextOptions, "ignoreHTTPSErrors"> {
+  return { ignoreHTTPSErrors: profile.ignoreHTTPSErrors }
+}
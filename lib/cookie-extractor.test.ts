@@ -0,0 +1,127 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { buildCookieHeader, parseSetCookie } from "@/lib/cookie-extractor"
+
+type Cookie = Parameters<typeof buildCookieHeader>[0][number]
+
+function cookie(name: string, domain: string, extra: Partial<Cookie> = {}): Cookie {
+  return { name, value: `${name}-value`, domain, path: "/", ...extra }
+}
+
+describe("buildCookieHeader", () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("sends domain cookies to subdomains and host-only cookies to their host only", () => {
+    const cookies = [cookie("shared", ".example.com"), cookie("hostOnly", "example.com"), cookie("other", ".other.com")]
+
+    expect(buildCookieHeader(cookies, "https://example.com/")).toBe("shared=shared-value; hostOnly=hostOnly-value")
+    expect(buildCookieHeader(cookies, "https://app.example.com/")).toBe("shared=shared-value")
+    expect(buildCookieHeader(cookies, "https://notexample.com/")).toBe("")
+  })
+
+  it("matches paths on segment boundaries and sends the longest path first", () => {
+    const cookies = [
+      cookie("root", "example.com"),
+      cookie("api", "example.com", { path: "/api" }),
+      cookie("v1", "example.com", { path: "/api/v1/" }),
+    ]
+
+    expect(buildCookieHeader(cookies, "https://example.com/api/v1/users")).toBe(
+      "v1=v1-value; api=api-value; root=root-value",
+    )
+    expect(buildCookieHeader(cookies, "https://example.com/api")).toBe("api=api-value; root=root-value")
+    expect(buildCookieHeader(cookies, "https://example.com/apiary")).toBe("root=root-value")
+  })
+
+  it("leaves out Secure cookies over http and expired cookies", () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") })
+    const now = Date.now() / 1000
+    const cookies = [
+      cookie("secure", "example.com", { secure: true }),
+      cookie("expired", "example.com", { expires: now - 60 }),
+      cookie("valid", "example.com", { expires: now + 60 }),
+      cookie("session", "example.com", { expires: -1 }),
+    ]
+
+    expect(buildCookieHeader(cookies, "http://example.com/")).toBe("valid=valid-value; session=session-value")
+    expect(buildCookieHeader(cookies, "https://example.com/")).toBe(
+      "secure=secure-value; valid=valid-value; session=session-value",
+    )
+  })
+})
+
+describe("parseSetCookie", () => {
+  const now = Date.parse("2026-01-01T00:00:00Z")
+
+  it("defaults to a host-only session cookie on the directory of the response path", () => {
+    expect(parseSetCookie("sid=abc123", "https://app.example.com/account/login", now)).toEqual({
+      cookie: {
+        name: "sid",
+        value: "abc123",
+        domain: "app.example.com",
+        path: "/account",
+        expires: -1,
+        httpOnly: false,
+        secure: false,
+      },
+      deleted: false,
+    })
+    expect(parseSetCookie("sid=abc123", "https://example.com/login", now)?.cookie.path).toBe("/")
+  })
+
+  it("reads the cookie attributes case-insensitively", () => {
+    const parsed = parseSetCookie(
+      "token=a=b; Domain=.Example.com; Path=/api; secure; HTTPONLY; SameSite=lax; Partitioned",
+      "https://login.example.com/",
+      now,
+    )
+
+    expect(parsed?.cookie).toMatchObject({
+      name: "token",
+      value: "a=b",
+      domain: ".example.com",
+      path: "/api",
+      secure: true,
+      httpOnly: true,
+      sameSite: "Lax",
+      partitioned: true,
+    })
+  })
+
+  it("ignores a Path that is not absolute and an unknown SameSite value", () => {
+    const parsed = parseSetCookie("sid=abc; Path=relative; SameSite=sometimes", "https://example.com/a/b", now)
+
+    expect(parsed?.cookie.path).toBe("/a")
+    expect(parsed?.cookie).not.toHaveProperty("sameSite")
+  })
+
+  it("lets Max-Age take precedence over Expires", () => {
+    const parsed = parseSetCookie(
+      "sid=abc; Expires=Thu, 01 Jan 2026 00:00:10 GMT; Max-Age=3600",
+      "https://example.com/",
+      now,
+    )
+
+    expect(parsed).toMatchObject({ cookie: { expires: now / 1000 + 3600 }, deleted: false })
+    expect(
+      parseSetCookie("sid=abc; Expires=Thu, 01 Jan 2026 00:00:10 GMT", "https://example.com/", now)?.cookie.expires,
+    ).toBe(now / 1000 + 10)
+  })
+
+  it("marks cookies that expire immediately as deleted", () => {
+    expect(parseSetCookie("sid=; Max-Age=0", "https://example.com/", now)).toMatchObject({
+      cookie: { expires: 0 },
+      deleted: true,
+    })
+    expect(parseSetCookie("sid=; Expires=Thu, 01 Jan 1970 00:00:00 GMT", "https://example.com/", now)?.deleted).toBe(
+      true,
+    )
+  })
+
+  it("rejects headers without a name and a Domain the response host is not part of", () => {
+    expect(parseSetCookie("no-separator", "https://example.com/", now)).toBeNull()
+    expect(parseSetCookie("=value", "https://example.com/", now)).toBeNull()
+    expect(parseSetCookie("sid=abc; Domain=other.com", "https://example.com/", now)).toBeNull()
+  })
+})
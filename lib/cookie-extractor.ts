@@ -1,6 +1,12 @@
 // Universal Cookie Extraction - Works with ALL Websites
 
-import type { Page, BrowserContext } from "playwright"
+import type { Page, BrowserContext, Request, Response } from "playwright"
+import { GENERIC_RECIPE } from "@/lib/login-recipes"
+import { logger } from "@/lib/logger"
+import { fetchWithUrlPolicy } from "@/lib/url-policy"
+import { resolveWebhookSecret, signWebhookDelivery } from "@/lib/webhook-signing"
+
+const log = logger.child({ component: "cookie-extractor" })
 
 interface CookieResult {
   name: string
@@ -11,6 +17,7 @@ interface CookieResult {
   httpOnly?: boolean
   secure?: boolean
   sameSite?: string
+  partitioned?: boolean
 }
 
 interface ExtractionResult {
@@ -57,6 +64,15 @@ const CRITICAL_PATTERNS = [
   /auth_token/i,
 ]
 
+/**
+ * Key identifying a cookie: browsers store one cookie per (name, domain, path)
+ * @param cookie - Cookie record
+ * @returns Identity key
+ */
+export function cookieKey(cookie: Pick<CookieResult, "name" | "domain" | "path">): string {
+  return `${cookie.name}|${cookie.domain.toLowerCase()}|${cookie.path || "/"}`
+}
+
 /**
  * Extract ALL cookies from page context
  * @param context - Browser context
@@ -68,7 +84,7 @@ export async function extractAllCookies(context: BrowserContext): Promise<Cookie
     const uniqueCookies = new Map<string, CookieResult>()
 
     cookies.forEach((cookie) => {
-      uniqueCookies.set(cookie.name, {
+      uniqueCookies.set(cookieKey(cookie), {
         name: cookie.name,
         value: cookie.value,
         domain: cookie.domain,
@@ -82,47 +98,199 @@ export async function extractAllCookies(context: BrowserContext): Promise<Cookie
 
     return Array.from(uniqueCookies.values())
   } catch (error) {
-    console.error("Cookie extraction error:", error)
+    log.error("Cookie extraction failed", { error })
     return []
   }
 }
 
 /**
- * Extract cookies from page headers (alternative method)
- * @param page - Playwright page
- * @returns Cookie string from Set-Cookie headers
+ * Merge cookies from several extraction methods. A cookie seen by more than one method keeps
+ * the record with the most attributes; document.cookie records (host and "/" only) are matched
+ * to the browser's record of the same name and value that would be sent to that host.
+ * @param sources - Cookie lists, most reliable first
+ * @returns Merged cookies, one per (name, domain, path)
  */
-export async function extractFromHeaders(page: Page): Promise<CookieResult[]> {
-  try {
-    const cookies: CookieResult[] = []
-
-    page.on("response", (response) => {
-      const setCookieHeaders = response.headers()["set-cookie"]
-      if (setCookieHeaders) {
-        const headerArray = setCookieHeaders.split("\n")
-        headerArray.forEach((header) => {
-          const parts = header.split(";")
-          const [nameValue] = parts
-          const [name, ...valueParts] = nameValue.split("=")
-
-          if (name && valueParts.length > 0) {
-            cookies.push({
-              name: name.trim(),
-              value: valueParts.join("=").trim(),
-              domain: new URL(response.url()).hostname,
-              path: "/",
-              httpOnly: header.toLowerCase().includes("httponly"),
-              secure: header.toLowerCase().includes("secure"),
-            })
-          }
+export function mergeCookies(...sources: CookieResult[][]): CookieResult[] {
+  const merged = new Map<string, CookieResult>()
+
+  for (const cookies of sources) {
+    for (const cookie of cookies) {
+      const key = cookieKey(cookie)
+      const existing =
+        merged.get(key) ??
+        Array.from(merged.values()).find(
+          (c) => c.name === cookie.name && c.value === cookie.value && domainMatches(cookie.domain, c.domain),
+        )
+
+      if (!existing) {
+        merged.set(key, cookie)
+      } else if (cookieDetail(cookie) > cookieDetail(existing)) {
+        merged.delete(cookieKey(existing))
+        merged.set(key, cookie)
+      }
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+function cookieDetail(cookie: CookieResult): number {
+  return [
+    cookie.expires !== undefined,
+    cookie.httpOnly !== undefined,
+    cookie.secure !== undefined,
+    !!cookie.sameSite,
+  ].filter(Boolean).length
+}
+
+export interface SetCookieEvent {
+  cookie: CookieResult
+  /** Max-Age/Expires in the past: the server deleted the cookie */
+  deleted: boolean
+  sourceUrl: string
+  status: number
+  receivedAt: string
+}
+
+/**
+ * Parse a Set-Cookie header the way a browser stores it (RFC 6265 section 5.2, plus Partitioned)
+ * @param header - One Set-Cookie header value
+ * @param url - URL of the response that set it, for the default domain and path
+ * @param now - Receive time, for Max-Age
+ * @returns The cookie and whether it deletes an existing one, or null when the header is malformed
+ */
+export function parseSetCookie(
+  header: string,
+  url: string,
+  now = Date.now(),
+): { cookie: CookieResult; deleted: boolean } | null {
+  const [pair, ...attributes] = header.split(";")
+  const separator = pair.indexOf("=")
+  if (separator === -1) return null
+
+  const name = pair.slice(0, separator).trim()
+  if (!name) return null
+
+  const requestUrl = new URL(url)
+  const cookie: CookieResult = {
+    name,
+    value: pair.slice(separator + 1).trim(),
+    domain: requestUrl.hostname,
+    path: defaultCookiePath(requestUrl.pathname),
+    expires: -1,
+    httpOnly: false,
+    secure: false,
+  }
+  let maxAge: number | undefined
+
+  for (const attribute of attributes) {
+    const [rawKey, ...rawValue] = attribute.split("=")
+    const key = rawKey.trim().toLowerCase()
+    const value = rawValue.join("=").trim()
+
+    switch (key) {
+      case "expires": {
+        const time = Date.parse(value)
+        if (!Number.isNaN(time)) cookie.expires = time / 1000
+        break
+      }
+      case "max-age":
+        if (/^-?\d+$/.test(value)) maxAge = Number(value)
+        break
+      case "domain":
+        // A Domain attribute makes the cookie apply to subdomains too
+        if (value) cookie.domain = `.${value.replace(/^\./, "").toLowerCase()}`
+        break
+      case "path":
+        if (value.startsWith("/")) cookie.path = value
+        break
+      case "secure":
+        cookie.secure = true
+        break
+      case "httponly":
+        cookie.httpOnly = true
+        break
+      case "samesite": {
+        const sameSite = value.toLowerCase()
+        if (sameSite === "strict") cookie.sameSite = "Strict"
+        else if (sameSite === "lax") cookie.sameSite = "Lax"
+        else if (sameSite === "none") cookie.sameSite = "None"
+        break
+      }
+      case "partitioned":
+        cookie.partitioned = true
+        break
+    }
+  }
+
+  // Browsers reject a Domain the response host is not part of
+  if (!domainMatches(requestUrl.hostname.toLowerCase(), cookie.domain)) return null
+
+  // Max-Age takes precedence over Expires
+  if (maxAge !== undefined) cookie.expires = maxAge <= 0 ? 0 : now / 1000 + maxAge
+
+  const deleted = cookie.expires !== -1 && cookie.expires! * 1000 <= now
+  return { cookie, deleted }
+}
+
+function defaultCookiePath(requestPath: string): string {
+  if (!requestPath.startsWith("/")) return "/"
+  const lastSlash = requestPath.lastIndexOf("/")
+  return lastSlash <= 0 ? "/" : requestPath.slice(0, lastSlash)
+}
+
+/**
+ * Record every Set-Cookie response header in the context from now on. Attach before navigating
+ * so cookies set by redirects during the login are seen too.
+ * @param context - Browser context
+ * @returns Call stop() to detach and get the events and the resulting cookies (deleted ones removed)
+ */
+export function captureSetCookieHeaders(context: BrowserContext): {
+  stop: () => Promise<{ events: SetCookieEvent[]; cookies: CookieResult[] }>
+} {
+  const events: SetCookieEvent[] = []
+  const pending = new Set<Promise<void>>()
+
+  const record = async (response: Response) => {
+    const receivedAt = Date.now()
+    // headersArray() keeps multiple Set-Cookie headers apart
+    for (const { name, value } of await response.headersArray()) {
+      if (name.toLowerCase() !== "set-cookie") continue
+      for (const line of value.split("\n")) {
+        const parsed = parseSetCookie(line, response.url(), receivedAt)
+        if (!parsed) continue
+        events.push({
+          ...parsed,
+          sourceUrl: response.url(),
+          status: response.status(),
+          receivedAt: new Date(receivedAt).toISOString(),
         })
       }
-    })
+    }
+  }
 
-    return cookies
-  } catch (error) {
-    console.error("Header extraction error:", error)
-    return []
+  const onResponse = (response: Response) => {
+    const task = record(response).catch((error) => log.error("Header extraction failed", { error }))
+    pending.add(task)
+    task.finally(() => pending.delete(task))
+  }
+
+  context.on("response", onResponse)
+
+  return {
+    stop: async () => {
+      context.off("response", onResponse)
+      await Promise.all(pending)
+
+      // Later headers overwrite or delete earlier ones, as in the browser's cookie jar
+      const jar = new Map<string, CookieResult>()
+      for (const event of events) {
+        if (event.deleted) jar.delete(cookieKey(event.cookie))
+        else jar.set(cookieKey(event.cookie), event.cookie)
+      }
+
+      return { events, cookies: Array.from(jar.values()) }
+    },
   }
 }
 
@@ -154,11 +322,33 @@ export async function extractViaJavaScript(page: Page): Promise<CookieResult[]>
 
     return results
   } catch (error) {
-    console.error("JavaScript extraction error:", error)
+    log.error("JavaScript extraction failed", { error })
     return []
   }
 }
 
+/**
+ * Whether a name/value pair looks like a session or auth token. Used for cookies, web storage and headers.
+ * @param name - Cookie, storage key or header name
+ * @param value - Its value
+ * @returns True for critical tokens
+ */
+export function isCriticalToken(name: string, value: string): boolean {
+  // Check pattern matching
+  const matchesPattern = CRITICAL_PATTERNS.some((pattern) => pattern.test(name))
+
+  // Check value length (session tokens are typically long)
+  const isLongValue = value.length > 80
+
+  // Check for JWT format (eyJ...), also behind a "Bearer " prefix
+  const isJWT = value.replace(/^bearer\s+/i, "").startsWith("eyJ")
+
+  // Check for encoded data (base64-like)
+  const isEncoded = /^[A-Za-z0-9+/=_-]+$/.test(value) && value.length > 50
+
+  return matchesPattern || isLongValue || isJWT || isEncoded
+}
+
 /**
  * Identify critical/important cookies
  * @param cookies - All extracted cookies
@@ -168,24 +358,125 @@ export function identifyCriticalCookies(cookies: CookieResult[]): string[] {
   const critical: Set<string> = new Set()
 
   cookies.forEach((cookie) => {
-    // Check pattern matching
-    const matchesPattern = CRITICAL_PATTERNS.some((pattern) => pattern.test(cookie.name))
+    if (isCriticalToken(cookie.name, cookie.value)) {
+      critical.add(cookie.name)
+    }
+  })
+
+  return Array.from(critical)
+}
 
-    // Check value length (session tokens are typically long)
-    const isLongValue = cookie.value.length > 80
+export interface WebStorageEntry {
+  origin: string
+  name: string
+  value: string
+  critical: boolean
+}
 
-    // Check for JWT format (eyJ...)
-    const isJWT = cookie.value.startsWith("eyJ")
+export interface AuthHeader {
+  name: string
+  value: string
+  /** Origin and path of the first request seen with this header */
+  url: string
+  method: string
+  seenAt: string
+  critical: boolean
+}
 
-    // Check for encoded data (base64-like)
-    const isEncoded = /^[A-Za-z0-9+/=_-]+$/.test(cookie.value) && cookie.value.length > 50
+// Request headers that carry credentials besides cookies
+const AUTH_HEADER_PATTERN =
+  /^(authorization|proxy-authorization|x-[\w-]*(auth|token|csrf|xsrf|api-key|apikey|session)[\w-]*)$/i
 
-    if (matchesPattern || isLongValue || isJWT || isEncoded) {
-      critical.add(cookie.name)
-    }
+/**
+ * Extract localStorage of every origin the context visited and sessionStorage of the page's frames
+ * @param page - Playwright page
+ * @param context - Browser context
+ * @returns Entries per storage area, each classified as critical or not
+ */
+export async function extractWebStorage(
+  page: Page,
+  context: BrowserContext,
+): Promise<{ localStorage: WebStorageEntry[]; sessionStorage: WebStorageEntry[] }> {
+  const toEntry = (origin: string, name: string, value: string): WebStorageEntry => ({
+    origin,
+    name,
+    value,
+    critical: isCriticalToken(name, value),
   })
 
-  return Array.from(critical)
+  const localStorage: WebStorageEntry[] = []
+  try {
+    const { origins } = await context.storageState()
+    for (const { origin, localStorage: items } of origins) {
+      items.forEach((item) => localStorage.push(toEntry(origin, item.name, item.value)))
+    }
+  } catch (error) {
+    log.error("localStorage extraction failed", { error })
+  }
+
+  const sessionStorage: WebStorageEntry[] = []
+  const seenOrigins = new Set<string>()
+  for (const frame of page.frames()) {
+    try {
+      const { origin, items } = await frame.evaluate(() => ({
+        origin: window.location.origin,
+        items: Object.entries(window.sessionStorage),
+      }))
+      if (origin === "null" || seenOrigins.has(origin)) continue
+      seenOrigins.add(origin)
+      items.forEach(([name, value]) => sessionStorage.push(toEntry(origin, name, value)))
+    } catch {
+      // Detached frames and sandboxed documents without storage access are skipped
+    }
+  }
+
+  return { localStorage, sessionStorage }
+}
+
+/**
+ * Record Authorization and custom auth headers of requests the page sends from now on
+ * @param page - Playwright page
+ * @returns Call stop() to detach the listener and get the distinct headers seen
+ */
+export function captureAuthHeaders(page: Page): { stop: () => Promise<AuthHeader[]> } {
+  const headers = new Map<string, AuthHeader>()
+  const pending = new Set<Promise<void>>()
+
+  const record = async (request: Request) => {
+    // headers() leaves out security-related headers such as Authorization
+    for (const [name, value] of Object.entries(await request.allHeaders())) {
+      if (!AUTH_HEADER_PATTERN.test(name) || !value) continue
+
+      const url = new URL(request.url())
+      const key = `${url.origin}|${name.toLowerCase()}|${value}`
+      if (headers.has(key)) continue
+
+      headers.set(key, {
+        name,
+        value,
+        url: `${url.origin}${url.pathname}`,
+        method: request.method(),
+        seenAt: new Date().toISOString(),
+        critical: isCriticalToken(name, value),
+      })
+    }
+  }
+
+  const onRequest = (request: Request) => {
+    const task = record(request).catch(() => {})
+    pending.add(task)
+    task.finally(() => pending.delete(task))
+  }
+
+  page.on("request", onRequest)
+
+  return {
+    stop: async () => {
+      page.off("request", onRequest)
+      await Promise.all(pending)
+      return Array.from(headers.values())
+    },
+  }
 }
 
 /**
@@ -213,6 +504,44 @@ export function buildCookieString(cookies: CookieResult[]): string {
   return cookies.map((c) => `${c.name}=${c.value}`).join("; ")
 }
 
+/**
+ * Build the Cookie header a browser would send for a request URL (RFC 6265 section 5.4):
+ * only cookies whose domain, path and Secure flag match and that have not expired,
+ * longest path first
+ * @param cookies - Cookie array
+ * @param url - Request URL
+ * @returns HTTP Cookie header value
+ */
+export function buildCookieHeader(cookies: CookieResult[], url: string): string {
+  const requestUrl = new URL(url)
+  const host = requestUrl.hostname.toLowerCase()
+  const now = Date.now() / 1000
+
+  return cookies
+    .filter((c) => {
+      if (c.expires !== undefined && c.expires > 0 && c.expires <= now) return false
+      if (c.secure && requestUrl.protocol !== "https:") return false
+      return domainMatches(host, c.domain) && pathMatches(requestUrl.pathname, c.path || "/")
+    })
+    .sort((a, b) => (b.path || "/").length - (a.path || "/").length)
+    .map((c) => `${c.name}=${c.value}`)
+    .join("; ")
+}
+
+// A leading dot marks a domain cookie; without it the cookie is host-only
+function domainMatches(host: string, cookieDomain: string): boolean {
+  const domain = cookieDomain.toLowerCase()
+  if (!domain.startsWith(".")) return host === domain
+  const base = domain.slice(1)
+  return host === base || host.endsWith(domain)
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) return true
+  if (!requestPath.startsWith(cookiePath)) return false
+  return cookiePath.endsWith("/") || requestPath[cookiePath.length] === "/"
+}
+
 /**
  * Build complete Set-Cookie header format
  * @param cookies - Cookie array
@@ -233,6 +562,149 @@ export function buildSetCookieString(cookies: CookieResult[]): string[] {
   })
 }
 
+export type CookieExportFormat = "netscape" | "curl" | "storageState" | "extension"
+
+export const COOKIE_EXPORT_FORMATS: CookieExportFormat[] = ["netscape", "curl", "storageState", "extension"]
+
+export interface CookieExport {
+  format: CookieExportFormat
+  filename: string
+  contentType: string
+  content: string
+}
+
+/**
+ * Build a Netscape cookies.txt file as read by curl, wget and yt-dlp
+ * @param cookies - Cookie array
+ * @returns File contents
+ */
+export function buildNetscapeCookieFile(cookies: CookieResult[]): string {
+  const lines = cookies.map((c) => {
+    // curl marks HttpOnly cookies with a prefix on the domain field
+    const domain = `${c.httpOnly ? "#HttpOnly_" : ""}${c.domain}`
+    const includeSubdomains = c.domain.startsWith(".") ? "TRUE" : "FALSE"
+    const expires = c.expires && c.expires > 0 ? Math.floor(c.expires) : 0
+    return [domain, includeSubdomains, c.path || "/", c.secure ? "TRUE" : "FALSE", expires, c.name, c.value].join("\t")
+  })
+
+  return ["# Netscape HTTP Cookie File", "# https://curl.se/docs/http-cookies.html", "", ...lines, ""].join("\n")
+}
+
+/**
+ * Build a ready-to-run curl command sending the cookies
+ * @param cookies - Cookie array
+ * @param url - URL the command requests
+ * @returns Shell command
+ */
+export function buildCurlCommand(cookies: CookieResult[], url: string): string {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+  return `curl -b ${quote(buildCookieHeader(cookies, url))} ${quote(url)}`
+}
+
+/**
+ * Build a Playwright storage state (also accepted by Puppeteer's cookie APIs)
+ * @param cookies - Cookie array
+ * @param origins - localStorage per origin, when captured
+ * @returns Storage state object for browser.newContext({ storageState })
+ */
+export function buildStorageState(
+  cookies: CookieResult[],
+  origins: { origin: string; localStorage: { name: string; value: string }[] }[] = [],
+) {
+  return {
+    cookies: cookies.map((c) => ({
+      name: c.name,
+      value: c.value,
+      domain: c.domain,
+      path: c.path || "/",
+      expires: c.expires && c.expires > 0 ? c.expires : -1,
+      httpOnly: !!c.httpOnly,
+      secure: !!c.secure,
+      sameSite: normalizeSameSite(c.sameSite),
+    })),
+    origins,
+  }
+}
+
+/**
+ * Build the JSON import format of cookie editor browser extensions (Cookie-Editor, EditThisCookie)
+ * @param cookies - Cookie array
+ * @returns Extension cookie records
+ */
+export function buildExtensionExport(cookies: CookieResult[]) {
+  const sameSiteValues = { Strict: "strict", Lax: "lax", None: "no_restriction" } as const
+  return cookies.map((c) => {
+    const session = !c.expires || c.expires <= 0
+    return {
+      domain: c.domain,
+      hostOnly: !c.domain.startsWith("."),
+      httpOnly: !!c.httpOnly,
+      name: c.name,
+      path: c.path || "/",
+      sameSite: c.sameSite ? sameSiteValues[normalizeSameSite(c.sameSite)] : "unspecified",
+      secure: !!c.secure,
+      session,
+      ...(session ? {} : { expirationDate: c.expires }),
+      storeId: "0",
+      value: c.value,
+    }
+  })
+}
+
+/**
+ * Export cookies in one of the supported file formats
+ * @param cookies - Cookie array
+ * @param format - Export format
+ * @param url - URL the cookies are for (used by the curl command and the file name)
+ * @returns File name, content type and contents
+ */
+export function exportCookies(cookies: CookieResult[], format: CookieExportFormat, url: string): CookieExport {
+  const host = new URL(url).hostname
+
+  switch (format) {
+    case "netscape":
+      return {
+        format,
+        filename: `${host}-cookies.txt`,
+        contentType: "text/plain",
+        content: buildNetscapeCookieFile(cookies),
+      }
+    case "curl":
+      return {
+        format,
+        filename: `${host}-curl.sh`,
+        contentType: "text/x-shellscript",
+        content: `${buildCurlCommand(cookies, url)}\n`,
+      }
+    case "storageState":
+      return {
+        format,
+        filename: `${host}-storage-state.json`,
+        contentType: "application/json",
+        content: JSON.stringify(buildStorageState(cookies), null, 2),
+      }
+    case "extension":
+      return {
+        format,
+        filename: `${host}-cookies.json`,
+        contentType: "application/json",
+        content: JSON.stringify(buildExtensionExport(cookies), null, 2),
+      }
+  }
+}
+
+function normalizeSameSite(value?: string): "Strict" | "Lax" | "None" {
+  switch (value?.toLowerCase()) {
+    case "strict":
+      return "Strict"
+    case "none":
+    case "no_restriction":
+      return "None"
+    default:
+      return "Lax"
+  }
+}
+
 /**
  * Universal login handler - Works with most websites
  * @param page - Playwright page
@@ -249,30 +721,18 @@ export async function universalLogin(
 ): Promise<boolean> {
   try {
     // Navigate to login
-    console.log(`[*] Navigating to: ${loginUrl}`)
+    log.info(`Navigating to: ${loginUrl}`)
     await page.goto(loginUrl, { waitUntil: "networkidle", timeout: 30000 })
     await page.waitForTimeout(1500)
 
     // Find and fill username/email field (Multiple selectors)
-    const usernameSelectors = [
-      'input[name="username"]',
-      'input[name="email"]',
-      'input[name="login"]',
-      'input[name="user"]',
-      'input[type="email"]',
-      'input[id*="username"]',
-      'input[id*="email"]',
-      'input[id*="login"]',
-      'input[placeholder*="email" i]',
-      'input[placeholder*="username" i]',
-      'input[placeholder*="login" i]',
-    ]
+    const usernameSelectors = GENERIC_RECIPE.selectors.username
 
     let usernameFilled = false
     for (const selector of usernameSelectors) {
       const element = await page.$(selector)
       if (element && (await element.isVisible().catch(() => false))) {
-        console.log(`[+] Found username field: ${selector}`)
+        log.debug(`Found username field: ${selector}`)
         await page.fill(selector, credentials.username)
         usernameFilled = true
         await page.waitForTimeout(500)
@@ -285,18 +745,13 @@ export async function universalLogin(
     }
 
     // Find and fill password field
-    const passwordSelectors = [
-      'input[type="password"]',
-      'input[name="password"]',
-      'input[name="pass"]',
-      'input[id*="password"]',
-    ]
+    const passwordSelectors = GENERIC_RECIPE.selectors.password
 
     let passwordFilled = false
     for (const selector of passwordSelectors) {
       const element = await page.$(selector)
       if (element && (await element.isVisible().catch(() => false))) {
-        console.log(`[+] Found password field: ${selector}`)
+        log.debug(`Found password field: ${selector}`)
         await page.fill(selector, credentials.password)
         passwordFilled = true
         await page.waitForTimeout(500)
@@ -309,24 +764,13 @@ export async function universalLogin(
     }
 
     // Click login button
-    const loginButtonSelectors = [
-      'button[type="submit"]',
-      'button:has-text("Login")',
-      'button:has-text("Sign In")',
-      'button:has-text("Submit")',
-      'input[type="submit"]',
-      'button[name*="login"]',
-      'button[id*="login"]',
-      'button:has-text("Log In")',
-      'a:has-text("Login")',
-      'a[role="button"]:has-text("Login")',
-    ]
+    const loginButtonSelectors = GENERIC_RECIPE.selectors.submit
 
     let loginClicked = false
     for (const selector of loginButtonSelectors) {
       const element = await page.$(selector)
       if (element && (await element.isVisible().catch(() => false))) {
-        console.log(`[+] Found login button: ${selector}`)
+        log.debug(`Found login button: ${selector}`)
         await element.click()
         loginClicked = true
         break
@@ -338,24 +782,24 @@ export async function universalLogin(
     }
 
     // Wait for navigation and page load
-    console.log("[*] Waiting for login to complete...")
+    log.info("Waiting for login to complete")
     await page.waitForTimeout(3000)
 
     try {
       await page.waitForNavigation({ waitUntil: "networkidle", timeout: 10000 }).catch(() => {})
     } catch (e) {
-      console.log("[!] Navigation timeout - continuing anyway")
+      log.warn("Navigation timeout - continuing anyway")
     }
 
     // Navigate to target URL
-    console.log(`[*] Navigating to target: ${targetUrl}`)
+    log.info(`Navigating to target: ${targetUrl}`)
     await page.goto(targetUrl, { waitUntil: "networkidle", timeout: 30000 })
     await page.waitForTimeout(2000)
 
-    console.log("[✓] Login successful!")
+    log.info("Login successful")
     return true
   } catch (error) {
-    console.error("[✗] Login failed:", error)
+    log.error("Login failed", { error })
     throw error
   }
 }
@@ -380,30 +824,22 @@ export async function performCompleteExtraction(
     // Perform login
     await universalLogin(page, loginUrl, targetUrl, credentials)
 
-    const cookieMap = new Map<string, CookieResult>()
-
-    console.log("[*] Extracting cookies - Method 1: Context cookies")
+    log.debug("Extracting cookies - Method 1: Context cookies")
     const contextCookies = await extractAllCookies(context)
-    contextCookies.forEach((c) => cookieMap.set(c.name, c))
 
-    console.log("[*] Extracting cookies - Method 2: JavaScript")
+    log.debug("Extracting cookies - Method 2: JavaScript")
     const jsCookies = await extractViaJavaScript(page)
-    jsCookies.forEach((c) => {
-      if (!cookieMap.has(c.name)) {
-        cookieMap.set(c.name, c)
-      }
-    })
 
-    const allCookies = Array.from(cookieMap.values())
+    const allCookies = mergeCookies(contextCookies, jsCookies)
 
     // Identify critical cookies
     const criticalCookies = identifyCriticalCookies(allCookies)
     const sessionTokens = extractSessionTokens(allCookies)
 
     // Build cookie strings
-    const cookieString = buildCookieString(allCookies)
+    const cookieString = buildCookieHeader(allCookies, targetUrl)
 
-    console.log(`[✓] Extracted ${allCookies.length} cookies (${criticalCookies.length} critical)`)
+    log.info(`Extracted ${allCookies.length} cookies (${criticalCookies.length} critical)`)
 
     return {
       status: "success",
@@ -425,29 +861,34 @@ export async function performCompleteExtraction(
 }
 
 /**
- * Send results to webhook
+ * Send results to webhook, signed with the WEBHOOK_SECRET key
  * @param webhookUrl - n8n webhook endpoint
  * @param result - Extraction result
  * @returns Success status
  */
 export async function sendToWebhook(webhookUrl: string, result: ExtractionResult): Promise<boolean> {
   try {
-    const response = await fetch(webhookUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        timestamp: new Date().toISOString(),
-        extractionResult: result,
-        totalCookies: result.cookieCount,
-        criticalCookies: result.importantCookies?.length || 0,
-        sessionTokens: result.sessionTokens?.length || 0,
-        cookieStringLength: result.cookieString?.length || 0,
-      }),
+    const body = JSON.stringify({
+      timestamp: new Date().toISOString(),
+      extractionResult: result,
+      totalCookies: result.cookieCount,
+      criticalCookies: result.importantCookies?.length || 0,
+      sessionTokens: result.sessionTokens?.length || 0,
+      cookieStringLength: result.cookieString?.length || 0,
     })
+    const response = await fetchWithUrlPolicy(
+      webhookUrl,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", ...signWebhookDelivery(resolveWebhookSecret(), body) },
+        body,
+      },
+      "sink",
+    )
 
     return response.ok
   } catch (error) {
-    console.error("[✗] Webhook send failed:", error)
+    log.error("Webhook send failed", { error })
     return false
   }
 }
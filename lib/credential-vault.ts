@@ -0,0 +1,219 @@
+// Encrypted credential vault so requests can reference stored logins instead of sending passwords
+
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID, scryptSync } from "crypto"
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+
+export interface CredentialInput {
+  label?: string
+  username: string
+  password?: string
+  totpSecret?: string
+  /** Site the credential belongs to, for display only */
+  targetUrl?: string
+}
+
+/** What the API returns for a credential: never the secrets themselves */
+export interface CredentialSummary {
+  id: string
+  label: string
+  username: string
+  targetUrl?: string
+  hasPassword: boolean
+  hasTotpSecret: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CredentialSecrets {
+  username: string
+  password?: string
+  totpSecret?: string
+}
+
+interface EncryptedValue {
+  iv: string
+  tag: string
+  data: string
+}
+
+interface StoredCredential extends CredentialSummary {
+  secrets: EncryptedValue
+}
+
+type VaultFile = Record<string, StoredCredential>
+
+const VAULT_FILE = "vault.json"
+const KEY_SALT = "login-automation-vault"
+
+let cachedKey: { source: string; key: Buffer } | undefined
+
+/**
+ * Validate a credential before it is stored
+ * @param input - Credential fields from a request
+ * @param partial - Allow leaving out fields, for updates
+ * @returns Error message, or null when the credential is usable
+ */
+export function validateCredentialInput(input: Partial<CredentialInput>, partial = false): string | null {
+  if (!input || typeof input !== "object") {
+    return "Request body must be a credential object"
+  }
+  if (!partial && !input.username) {
+    return "username is required"
+  }
+  for (const field of ["label", "username", "password", "totpSecret", "targetUrl"] as const) {
+    if (input[field] !== undefined && typeof input[field] !== "string") {
+      return `${field} must be a string`
+    }
+  }
+  if (input.targetUrl) {
+    try {
+      new URL(input.targetUrl)
+    } catch {
+      return "targetUrl must be an absolute URL"
+    }
+  }
+  return null
+}
+
+/**
+ * List stored credentials without their secrets
+ * @returns Credential summaries, oldest first
+ */
+export async function listCredentials(): Promise<CredentialSummary[]> {
+  const vault = await readJsonFile<VaultFile>(VAULT_FILE, {})
+  return Object.values(vault).map(toSummary)
+}
+
+/**
+ * Look up a stored credential without its secrets
+ * @param id - Credential ID
+ * @returns The summary, or null when no such credential exists
+ */
+export async function getCredential(id: string): Promise<CredentialSummary | null> {
+  const vault = await readJsonFile<VaultFile>(VAULT_FILE, {})
+  // Own entries only, so IDs like "constructor" do not find Object.prototype members
+  return Object.hasOwn(vault, id) ? toSummary(vault[id]) : null
+}
+
+/**
+ * Encrypt and store a new credential
+ * @param input - Validated credential fields
+ * @returns Summary of the stored credential
+ */
+export async function createCredential(input: CredentialInput): Promise<CredentialSummary> {
+  const now = new Date().toISOString()
+  const stored: StoredCredential = {
+    id: randomUUID(),
+    label: input.label || input.username,
+    username: input.username,
+    targetUrl: input.targetUrl,
+    createdAt: now,
+    updatedAt: now,
+    ...sealSecrets({ username: input.username, password: input.password, totpSecret: input.totpSecret }),
+  }
+
+  await updateJsonFile<VaultFile>(VAULT_FILE, {}, (vault) => {
+    vault[stored.id] = stored
+  })
+  return toSummary(stored)
+}
+
+/**
+ * Update fields of a stored credential; secrets left out keep their current value
+ * @param id - Credential ID
+ * @param input - Validated fields to change
+ * @returns Summary of the updated credential, or null when no such credential exists
+ */
+export async function updateCredential(id: string, input: Partial<CredentialInput>): Promise<CredentialSummary | null> {
+  let updated: StoredCredential | undefined
+
+  await updateJsonFile<VaultFile>(VAULT_FILE, {}, (vault) => {
+    const current = Object.hasOwn(vault, id) ? vault[id] : undefined
+    if (!current) return
+
+    const secrets = openSecrets(current.secrets)
+    updated = {
+      ...current,
+      label: input.label ?? current.label,
+      username: input.username ?? current.username,
+      targetUrl: input.targetUrl ?? current.targetUrl,
+      updatedAt: new Date().toISOString(),
+      ...sealSecrets({
+        username: input.username ?? secrets.username,
+        password: input.password ?? secrets.password,
+        totpSecret: input.totpSecret ?? secrets.totpSecret,
+      }),
+    }
+    vault[id] = updated
+  })
+
+  return updated ? toSummary(updated) : null
+}
+
+/**
+ * Remove a stored credential
+ * @param id - Credential ID
+ * @returns Whether a credential was removed
+ */
+export async function deleteCredential(id: string): Promise<boolean> {
+  let deleted = false
+  await updateJsonFile<VaultFile>(VAULT_FILE, {}, (vault) => {
+    deleted = Object.hasOwn(vault, id)
+    delete vault[id]
+  })
+  return deleted
+}
+
+/**
+ * Decrypt the secrets of a stored credential for a login run. Never return these from an API.
+ * @param id - Credential ID
+ * @returns Username and secrets, or null when no such credential exists
+ */
+export async function readCredentialSecrets(id: string): Promise<CredentialSecrets | null> {
+  const vault = await readJsonFile<VaultFile>(VAULT_FILE, {})
+  return Object.hasOwn(vault, id) ? openSecrets(vault[id].secrets) : null
+}
+
+function toSummary({ secrets: _secrets, ...summary }: StoredCredential): CredentialSummary {
+  return summary
+}
+
+function sealSecrets(secrets: CredentialSecrets): Pick<StoredCredential, "secrets" | "hasPassword" | "hasTotpSecret"> {
+  return {
+    secrets: encrypt(JSON.stringify(secrets)),
+    hasPassword: !!secrets.password,
+    hasTotpSecret: !!secrets.totpSecret,
+  }
+}
+
+function openSecrets(value: EncryptedValue): CredentialSecrets {
+  return JSON.parse(decrypt(value)) as CredentialSecrets
+}
+
+function vaultKey(): Buffer {
+  const source = process.env.VAULT_KEY
+  if (!source) {
+    throw new Error("VAULT_KEY is not set; the credential vault is unavailable")
+  }
+  if (cachedKey?.source !== source) {
+    cachedKey = { source, key: scryptSync(source, KEY_SALT, 32) }
+  }
+  return cachedKey.key
+}
+
+function encrypt(plaintext: string): EncryptedValue {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", vaultKey(), iv)
+  const data = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()])
+  return { iv: iv.toString("base64"), tag: cipher.getAuthTag().toString("base64"), data: data.toString("base64") }
+}
+
+function decrypt(value: EncryptedValue): string {
+  const decipher = createDecipheriv("aes-256-gcm", vaultKey(), Buffer.from(value.iv, "base64"))
+  decipher.setAuthTag(Buffer.from(value.tag, "base64"))
+  try {
+    return Buffer.concat([decipher.update(Buffer.from(value.data, "base64")), decipher.final()]).toString("utf8")
+  } catch {
+    throw new Error("Could not decrypt vault entry; VAULT_KEY may have changed")
+  }
+}
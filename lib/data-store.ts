@@ -0,0 +1,103 @@
+// Local JSON file persistence under DATA_DIR
+
+import { promises as fs } from "fs"
+import path from "path"
+import { logger } from "@/lib/logger"
+
+// Serializes read-modify-write cycles per file within this process
+const fileLocks = new Map<string, Promise<unknown>>()
+
+/**
+ * Absolute path of a file in the data directory
+ * @param name - File name relative to DATA_DIR
+ * @returns Absolute path
+ */
+export function dataPath(name: string): string {
+  return path.join(process.env.DATA_DIR || path.join(process.cwd(), ".data"), name)
+}
+
+/**
+ * Read a JSON file from the data directory
+ * @param name - File name relative to DATA_DIR
+ * @param fallback - Value returned when the file does not exist yet
+ * @returns Parsed contents
+ */
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(dataPath(name), "utf8")) as T
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback
+    throw error
+  }
+}
+
+/**
+ * Atomically replace a JSON file in the data directory
+ * @param name - File name relative to DATA_DIR
+ * @param data - Value to serialize
+ */
+export async function writeJsonFile(name: string, data: unknown): Promise<void> {
+  const file = dataPath(name)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  const tmp = `${file}.${process.pid}.tmp`
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2), { mode: 0o600 })
+  await fs.rename(tmp, file)
+}
+
+/**
+ * Read, modify and write back a JSON file without interleaving with other updates
+ * @param name - File name relative to DATA_DIR
+ * @param fallback - Initial value when the file does not exist yet
+ * @param update - Mutates the data in place or returns a replacement
+ * @returns The data as written
+ */
+export async function updateJsonFile<T>(name: string, fallback: T, update: (data: T) => T | void): Promise<T> {
+  const previous = fileLocks.get(name) ?? Promise.resolve()
+  const next = previous
+    .catch(() => {})
+    .then(async () => {
+      const current = await readJsonFile(name, fallback)
+      const updated = update(current) ?? current
+      await writeJsonFile(name, updated)
+      return updated
+    })
+  fileLocks.set(name, next)
+  return next
+}
+
+/**
+ * Append one JSON record as a line to a JSON Lines file in the data directory; existing lines are never rewritten
+ * @param name - File name relative to DATA_DIR
+ * @param record - Value to serialize on a single line
+ */
+export async function appendJsonLine(name: string, record: unknown): Promise<void> {
+  const file = dataPath(name)
+  await fs.mkdir(path.dirname(file), { recursive: true })
+  await fs.appendFile(file, `${JSON.stringify(record)}\n`, { mode: 0o600 })
+}
+
+/**
+ * Read every record of a JSON Lines file in the data directory
+ * @param name - File name relative to DATA_DIR
+ * @returns Records in file order; empty when the file does not exist yet. Unreadable lines, e.g. one cut off by a crash, are skipped
+ */
+export async function readJsonLines<T>(name: string): Promise<T[]> {
+  let content: string
+  try {
+    content = await fs.readFile(dataPath(name), "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+    throw error
+  }
+
+  const records: T[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line) as T)
+    } catch {
+      logger.warn(`Skipping unreadable line in ${name}`)
+    }
+  }
+  return records
+}
@@ -0,0 +1,246 @@
+// In-process job queue for login automation runs
+
+import { randomUUID } from "crypto"
+import { auditHost, auditSinks, recordAudit, type AuditActor } from "@/lib/audit"
+import {
+  AutomationError,
+  runLoginAutomation,
+  type LoginRequest,
+  type LoginResult,
+  type RunEvent,
+  type StepTiming,
+} from "@/lib/login-automation"
+import { logger, runWithLogContext } from "@/lib/logger"
+import { sessionAccount } from "@/lib/session-store"
+
+export type JobState = "queued" | "running" | "succeeded" | "failed"
+
+export interface JobError {
+  status: "error"
+  message: string
+  step?: string
+  timestamp: string
+}
+
+export interface Job {
+  id: string
+  state: JobState
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  durationMs?: number
+  steps: StepTiming[]
+  result?: LoginResult | JobError
+  /** Who queued the job: an API key, a schedule or a session refresh */
+  triggeredBy: AuditActor
+  /** Schedule the job was started for */
+  scheduleId?: string
+}
+
+export type JobEvent = RunEvent | { type: "job_state"; at: string; state: JobState; result?: LoginResult | JobError }
+
+export interface SequencedJobEvent {
+  id: number
+  event: JobEvent
+}
+
+type JobListener = (event: SequencedJobEvent) => void
+
+const MAX_CONCURRENT_JOBS = Math.max(1, Number(process.env.MAX_CONCURRENT_JOBS) || 1)
+const JOB_TTL_MS = 60 * 60 * 1000
+
+interface QueueState {
+  jobs: Map<string, Job>
+  pending: { job: Job; request: LoginRequest }[]
+  running: number
+  events: Map<string, SequencedJobEvent[]>
+  listeners: Map<string, Set<JobListener>>
+}
+
+// Kept on globalThis so jobs survive module reloads in dev
+const globalForQueue = globalThis as unknown as { __loginJobQueue?: QueueState }
+const queue: QueueState = (globalForQueue.__loginJobQueue ??= {
+  jobs: new Map(),
+  pending: [],
+  running: 0,
+  events: new Map(),
+  listeners: new Map(),
+})
+
+/**
+ * Queue a login run and start it once a worker slot is free
+ * @param request - Validated login request
+ * @param triggeredBy - Who queued it, for the audit log
+ * @param scheduleId - Schedule the run belongs to
+ * @returns The queued job
+ */
+export function enqueueLoginJob(request: LoginRequest, triggeredBy: AuditActor, scheduleId?: string): Job {
+  pruneFinishedJobs()
+
+  const job: Job = {
+    id: randomUUID(),
+    state: "queued",
+    createdAt: new Date().toISOString(),
+    steps: [],
+    triggeredBy,
+    scheduleId,
+  }
+
+  queue.jobs.set(job.id, job)
+  queue.events.set(job.id, [])
+  queue.pending.push({ job, request })
+  publish(job.id, { type: "job_state", at: job.createdAt, state: job.state })
+  void recordAudit({ action: "job.queued", outcome: "success", ...auditFields(job, request) })
+  drainQueue()
+
+  return job
+}
+
+/**
+ * Look up a job by ID
+ * @param id - Job ID
+ * @returns The job, or undefined when unknown or expired
+ */
+export function getJob(id: string): Job | undefined {
+  return queue.jobs.get(id)
+}
+
+/**
+ * Events recorded for a job so far
+ * @param id - Job ID
+ * @param afterId - Only return events with a sequence number above this one
+ * @returns Sequenced events in emission order
+ */
+export function getJobEvents(id: string, afterId = 0): SequencedJobEvent[] {
+  return (queue.events.get(id) ?? []).filter((e) => e.id > afterId)
+}
+
+/**
+ * Subscribe to events emitted by a job from now on
+ * @param id - Job ID
+ * @param listener - Called for every new event
+ * @returns Unsubscribe function
+ */
+export function subscribeToJob(id: string, listener: JobListener): () => void {
+  let listeners = queue.listeners.get(id)
+  if (!listeners) {
+    listeners = new Set()
+    queue.listeners.set(id, listeners)
+  }
+  listeners.add(listener)
+
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size === 0) queue.listeners.delete(id)
+  }
+}
+
+/**
+ * Whether a job has reached a final state
+ * @param job - Job to check
+ */
+export function isJobFinished(job: Job): boolean {
+  return job.state === "succeeded" || job.state === "failed"
+}
+
+function publish(id: string, event: JobEvent) {
+  const events = queue.events.get(id)
+  if (!events) return
+
+  const sequenced = { id: events.length + 1, event }
+  events.push(sequenced)
+  queue.listeners.get(id)?.forEach((listener) => listener(sequenced))
+}
+
+function drainQueue() {
+  while (queue.running < MAX_CONCURRENT_JOBS && queue.pending.length > 0) {
+    const next = queue.pending.shift()!
+    queue.running++
+    // Everything the run logs carries the job ID as its run ID
+    runWithLogContext({ runId: next.job.id }, () => executeJob(next.job, next.request)).finally(() => {
+      queue.running--
+      drainQueue()
+    })
+  }
+}
+
+async function executeJob(job: Job, request: LoginRequest) {
+  const started = Date.now()
+  job.state = "running"
+  job.startedAt = new Date(started).toISOString()
+  publish(job.id, { type: "job_state", at: job.startedAt, state: job.state })
+  logger.info("Job started", { targetUrl: request.targetUrl, triggeredBy: job.triggeredBy.label })
+
+  let thrown: unknown
+  try {
+    job.result = await runLoginAutomation(request, {
+      onStepStart: (step) => {
+        job.steps.push(step)
+      },
+      onStepEnd: (step) => {
+        const index = job.steps.findIndex((s) => s.name === step.name && s.status === "running")
+        if (index >= 0) job.steps[index] = step
+        else job.steps.push(step)
+      },
+      onEvent: (event) => publish(job.id, event),
+    })
+    job.state = job.result.status === "success" ? "succeeded" : "failed"
+  } catch (error) {
+    thrown = error
+    const errorMessage = error instanceof Error ? error.message : "Automation failed"
+    const errorDetails =
+      error instanceof Error && error.cause && !(error instanceof AutomationError)
+        ? ` Cause: ${String(error.cause)}`
+        : ""
+    job.result = {
+      status: "error",
+      message: errorMessage + errorDetails,
+      step: error instanceof AutomationError ? error.step : undefined,
+      timestamp: new Date().toISOString(),
+    }
+    job.state = "failed"
+  } finally {
+    job.finishedAt = new Date().toISOString()
+    job.durationMs = Date.now() - started
+    ;(job.state === "succeeded" ? logger.info : logger.error)(`Job ${job.state}`, {
+      state: job.state,
+      durationMs: job.durationMs,
+      failedStep: job.result && "step" in job.result ? job.result.step : undefined,
+      // The thrown error keeps its stack; a login that could not be verified only has the result's message
+      error: job.state === "succeeded" ? undefined : (thrown ?? job.result?.message),
+    })
+    publish(job.id, { type: "job_state", at: job.finishedAt, state: job.state, result: job.result })
+    await recordAudit({
+      action: "job.finished",
+      outcome: job.state === "succeeded" ? "success" : "failure",
+      ...auditFields(job, request),
+      sinks: job.result && "sinks" in job.result ? auditSinks(job.result.sinks) : undefined,
+      detail: job.state === "succeeded" ? undefined : job.result?.message,
+    })
+  }
+}
+
+// Identifies the run without anything secret: the account, the target's host and the credential's ID
+function auditFields(job: Job, request: LoginRequest) {
+  const result = job.result && "session" in job.result ? job.result : undefined
+  return {
+    actor: job.triggeredBy,
+    jobId: job.id,
+    scheduleId: job.scheduleId,
+    credentialId: request.credentialId,
+    targetHost: auditHost(request.targetUrl),
+    account:
+      result?.session?.account ??
+      (request.account || (request.username ? sessionAccount({ ...request, username: request.username }) : undefined)),
+  }
+}
+
+function pruneFinishedJobs() {
+  const cutoff = Date.now() - JOB_TTL_MS
+  for (const [id, job] of queue.jobs) {
+    if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+      queue.jobs.delete(id)
+      queue.events.delete(id)
+    }
+  }
+}
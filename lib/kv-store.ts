@@ -0,0 +1,48 @@
+// Key-value store with expiry, kept as a JSON file; stands in for Redis with the same GET/SET EX semantics
+
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+
+interface KvEntry {
+  value: unknown
+  updatedAt: string
+  expiresAt?: string
+}
+
+type KvFile = Record<string, KvEntry>
+
+const KV_FILE = "kv.json"
+
+/**
+ * Store a value, replacing any earlier one
+ * @param key - Key, e.g. "cookies:leetcode.com:alice"
+ * @param value - JSON-serializable value
+ * @param ttlSeconds - Drop the value after this long; kept until overwritten when unset
+ */
+export async function kvSet(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+  const now = Date.now()
+  await updateJsonFile<KvFile>(KV_FILE, {}, (kv) => {
+    for (const [k, entry] of Object.entries(kv)) {
+      if (isExpired(entry, now)) delete kv[k]
+    }
+    kv[key] = {
+      value,
+      updatedAt: new Date(now).toISOString(),
+      expiresAt: ttlSeconds ? new Date(now + ttlSeconds * 1000).toISOString() : undefined,
+    }
+  })
+}
+
+/**
+ * Read a value
+ * @param key - Key
+ * @returns The value, or null when it was never set or has expired
+ */
+export async function kvGet<T>(key: string): Promise<T | null> {
+  const kv = await readJsonFile<KvFile>(KV_FILE, {})
+  const entry = kv[key]
+  return entry && !isExpired(entry, Date.now()) ? (entry.value as T) : null
+}
+
+function isExpired(entry: KvEntry, now: number) {
+  return !!entry.expiresAt && new Date(entry.expiresAt).getTime() <= now
+}
@@ -0,0 +1,112 @@
+// Structured logger: JSON lines tagged with the run, account and step they belong to, or readable lines for local dev
+
+import { AsyncLocalStorage } from "async_hooks"
+
+export type LogLevel = "debug" | "info" | "warn" | "error"
+
+export const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"]
+
+/** Fields every line logged inside a run carries */
+export interface LogContext {
+  runId?: string
+  account?: string
+  step?: string
+}
+
+export type LogFields = Record<string, unknown>
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void
+  info(message: string, fields?: LogFields): void
+  warn(message: string, fields?: LogFields): void
+  error(message: string, fields?: LogFields): void
+  /** Logger that adds these fields to every line, e.g. { component: "scheduler" } */
+  child(fields: LogFields): Logger
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>()
+
+const minLevel = parseLevel(process.env.LOG_LEVEL)
+// JSON for log collectors by default; LOG_FORMAT=pretty, or running `next dev`, prints readable lines instead
+const pretty = (process.env.LOG_FORMAT ?? (process.env.NODE_ENV === "development" ? "pretty" : "json")) === "pretty"
+
+/**
+ * Run a function with a log context; everything it logs, including from awaited calls, carries the context
+ * @param context - Fields added to the current context, which nested calls inherit
+ * @param fn - Function to run
+ * @returns What the function returns
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...context }, fn)
+}
+
+/**
+ * Add fields to the current log context once they are known, e.g. the account after a credential is loaded.
+ * Only affects code running inside runWithLogContext.
+ * @param context - Fields to set
+ */
+export function updateLogContext(context: LogContext) {
+  const store = contextStorage.getStore()
+  if (store) Object.assign(store, context)
+}
+
+/**
+ * Create a logger
+ * @param fields - Fields added to every line
+ * @returns The logger
+ */
+export function createLogger(fields: LogFields = {}): Logger {
+  const write = (level: LogLevel) => (message: string, extra?: LogFields) =>
+    writeLine(level, message, { ...fields, ...extra })
+
+  return {
+    debug: write("debug"),
+    info: write("info"),
+    warn: write("warn"),
+    error: write("error"),
+    child: (childFields) => createLogger({ ...fields, ...childFields }),
+  }
+}
+
+export const logger = createLogger()
+
+function writeLine(level: LogLevel, message: string, fields: LogFields) {
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return
+
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...contextStorage.getStore(),
+    ...Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, serializeValue(value)])),
+  }
+
+  const line = pretty ? formatPretty(entry) : JSON.stringify(entry)
+  if (level === "error") console.error(line)
+  else if (level === "warn") console.warn(line)
+  else console.log(line)
+}
+
+function formatPretty({ time, level, msg, runId, account, step, ...rest }: LogFields): string {
+  const tags = [runId && `run ${String(runId).slice(0, 8)}`, account && String(account), step && String(step)].filter(
+    Boolean,
+  )
+  const extra = Object.keys(rest).length > 0 ? ` ${JSON.stringify(rest)}` : ""
+  return `${String(time).slice(11, 23)} ${String(level).toUpperCase().padEnd(5)} ${tags.length ? `[${tags.join(" · ")}] ` : ""}${msg}${extra}`
+}
+
+// Errors do not survive JSON.stringify on their own
+function serializeValue(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  return value
+}
+
+function parseLevel(source?: string): LogLevel {
+  if (!source) return "info"
+  const level = source.toLowerCase() as LogLevel
+  if (LOG_LEVELS.includes(level)) return level
+  console.warn(`Ignoring invalid LOG_LEVEL "${source}"; use one of: ${LOG_LEVELS.join(", ")}`)
+  return "info"
+}
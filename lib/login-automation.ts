@@ -0,0 +1,997 @@
+import type { Browser, BrowserContext, Page } from "playwright"
+import {
+  extractAllCookies,
+  extractViaJavaScript,
+  identifyCriticalCookies,
+  extractSessionTokens,
+  buildCookieHeader,
+  mergeCookies,
+  buildSetCookieString,
+  exportCookies,
+  extractWebStorage,
+  captureAuthHeaders,
+  captureSetCookieHeaders,
+  COOKIE_EXPORT_FORMATS,
+  type CookieExportFormat,
+} from "@/lib/cookie-extractor"
+import { solveTurnstileChallenge } from "@/lib/turnstile-solver"
+import { resolveLoginRecipe, validateLoginRecipe, type LoginRecipe } from "@/lib/login-recipes"
+import { runLoginFlow } from "@/lib/login-flow"
+import { parseTotpSecret, resolveTotpSecretRef } from "@/lib/totp"
+import { validateEmailCodeConfig, type EmailCodeConfig } from "@/lib/mailbox"
+import {
+  mergeVerificationConfig,
+  validateVerificationConfig,
+  verifyLogin,
+  type VerificationConfig,
+} from "@/lib/login-verification"
+import { readCredentialSecrets } from "@/lib/credential-vault"
+import { loadSession, saveSession, sessionAccount, type StorageState } from "@/lib/session-store"
+import type { PayloadTemplate } from "@/lib/payload-template"
+import {
+  describeSecretForLog,
+  redactPayload,
+  resolveRedaction,
+  tokenPreview,
+  validateRedactionPolicy,
+  type RedactionPolicy,
+} from "@/lib/redaction"
+import { deliverToSink, resolveSinks, validateSinks, type SinkConfig, type SinkResult } from "@/lib/sinks"
+import {
+  contextOptions,
+  launchOptions,
+  resolveBrowserProfile,
+  validateBrowserProfile,
+  type BrowserProfile,
+  type BrowserProfileName,
+} from "@/lib/browser-profiles"
+import { logger, runWithLogContext, updateLogContext } from "@/lib/logger"
+import {
+  assertHostAllowed,
+  guardBrowserContext,
+  UrlPolicyError,
+  validateUrl,
+  validateUrls,
+  type BlockedRequest,
+} from "@/lib/url-policy"
+
+export interface LoginRequest {
+  targetUrl: string
+  /** Optional when the recipe declares its own login URL */
+  loginUrl?: string
+  /** Optional when credentialId is set */
+  username?: string
+  /** Optional when credentialId is set or the site logs in with an emailed code instead */
+  password?: string
+  /** Stored vault credential to log in with instead of sending username, password and totpSecret */
+  credentialId?: string
+  /** n8n webhook to deliver to; shorthand for an "n8n" entry in sinks */
+  webhookUrl?: string
+  /** Name of a WEBHOOK_SECRET_* environment variable the webhookUrl deliveries are signed with; defaults to WEBHOOK_SECRET */
+  webhookSecretRef?: string
+  /** Body template for the webhookUrl deliveries, with {{placeholders}} filled from the run's payload */
+  webhookTemplate?: PayloadTemplate
+  /** Where to deliver the cookies; several sinks receive the same payload */
+  sinks?: SinkConfig[]
+  /** How values appear in the result returned by the API; sinks carry their own redaction */
+  redaction?: { response?: RedactionPolicy }
+  /** Built-in recipe name or an inline recipe; defaults to matching by host */
+  recipe?: string | LoginRecipe
+  /** Base32 TOTP secret or otpauth:// URI for accounts with authenticator-app 2FA */
+  totpSecret?: string
+  /** Name of a TOTP_* environment variable holding the secret instead of sending it */
+  totpSecretRef?: string
+  /** Mailbox to read emailed login codes or magic links from */
+  emailCode?: EmailCodeConfig
+  /** Checks proving the login worked, merged over the recipe's success condition */
+  verify?: VerificationConfig
+  /** Try the account's stored session first and only log in with credentials if it has expired */
+  reuseSession?: boolean
+  /** Name the session is stored under; defaults to "<host>:<username>" */
+  account?: string
+  /** Re-login this long before the first critical cookie expires; needs a secret-free request */
+  refreshMarginMinutes?: number
+  /** Also export the cookies as a file in this format, included in the result and webhook payload */
+  format?: CookieExportFormat
+  /** Browser launch profile; "secure" unless the site needs a relaxed one, e.g. "self-signed" for an internal host */
+  browserProfile?: BrowserProfileName
+}
+
+export interface StepTiming {
+  name: string
+  status: "running" | "succeeded" | "failed"
+  startedAt: string
+  finishedAt?: string
+  durationMs?: number
+  error?: string
+}
+
+export type MilestoneCode =
+  | "recipe_selected"
+  | "browser_profile"
+  | "navigation_attempt"
+  | "navigation_failed"
+  | "page_loaded"
+  | "turnstile_checked"
+  | "field_found"
+  | "field_filled"
+  | "clicked"
+  | "selector_appeared"
+  | "submit_found"
+  | "button_enabled"
+  | "submitted"
+  | "redirected"
+  | "verification_check"
+  | "login_verified"
+  | "login_not_verified"
+  | "session_loaded"
+  | "session_restored"
+  | "session_expired"
+  | "session_saved"
+  | "stage_completed"
+  | "stage_skipped"
+  | "stage_failed"
+  | "account_chosen"
+  | "identifier_submitted"
+  | "identifier_skipped"
+  | "next_form_ready"
+  | "otp_prompt_detected"
+  | "otp_filled"
+  | "email_polling"
+  | "email_received"
+  | "extraction_started"
+  | "extraction_method"
+  | "extraction_complete"
+  | "sink_attempt"
+  | "sink_result"
+  | "url_blocked"
+
+export type RunEvent =
+  | { type: "step_started"; at: string; step: StepTiming }
+  | { type: "step_finished"; at: string; step: StepTiming }
+  | {
+      type: "milestone"
+      at: string
+      step?: string
+      code: MilestoneCode
+      message: string
+      data?: Record<string, unknown>
+    }
+
+export type StepRunner = <T>(name: string, fn: () => Promise<T>) => Promise<T>
+
+export type MilestoneReporter = (code: MilestoneCode, message: string, data?: Record<string, unknown>) => void
+
+export interface RunHooks {
+  onStepStart?: (step: StepTiming) => void
+  onStepEnd?: (step: StepTiming) => void
+  onEvent?: (event: RunEvent) => void
+}
+
+/**
+ * Error raised by the automation run, tagged with the step it failed in
+ */
+export class AutomationError extends Error {
+  step?: string
+
+  constructor(message: string, options?: { step?: string; cause?: unknown }) {
+    super(message, { cause: options?.cause })
+    this.name = "AutomationError"
+    this.step = options?.step
+  }
+}
+
+/**
+ * Validate an incoming login request before it is queued
+ * @param body - Parsed request body
+ * @returns Error message, or null when the request is valid
+ */
+export function validateLoginRequest(body: Partial<LoginRequest>): string | null {
+  const { targetUrl, username, password, recipe } = body
+
+  if (recipe !== undefined) {
+    const recipeError = validateLoginRecipe(recipe)
+    if (recipeError) return `Invalid recipe: ${recipeError}`
+  }
+
+  if (body.credentialId !== undefined) {
+    if (typeof body.credentialId !== "string" || !body.credentialId) {
+      return "credentialId must be a non-empty string"
+    }
+    if (username || password || body.totpSecret) {
+      return "Send either credentialId or username, password and totpSecret, not both"
+    }
+  }
+
+  const loginUrl = body.loginUrl || resolveLoginRecipe(body.loginUrl || targetUrl, recipe).loginUrl
+  const hasCredential = !!body.credentialId
+  if (!targetUrl || !loginUrl || (!username && !hasCredential) || (!password && !body.emailCode && !hasCredential)) {
+    return "Missing required fields"
+  }
+
+  for (const [field, url] of [
+    ["targetUrl", targetUrl],
+    ["loginUrl", loginUrl],
+  ]) {
+    const urlError = validateUrl(field, url, "login")
+    if (urlError) return urlError
+  }
+
+  if (body.emailCode) {
+    const emailError = validateEmailCodeConfig(body.emailCode)
+    if (emailError) return emailError
+  }
+
+  if (body.browserProfile !== undefined) {
+    const profileError = validateBrowserProfile(body.browserProfile)
+    if (profileError) return profileError
+  }
+
+  if (body.format !== undefined && !COOKIE_EXPORT_FORMATS.includes(body.format)) {
+    return `format must be one of: ${COOKIE_EXPORT_FORMATS.join(", ")}`
+  }
+
+  if (
+    body.refreshMarginMinutes !== undefined &&
+    (typeof body.refreshMarginMinutes !== "number" || body.refreshMarginMinutes <= 0)
+  ) {
+    return "refreshMarginMinutes must be a positive number"
+  }
+
+  if (body.verify !== undefined) {
+    const verifyError = validateVerificationConfig(body.verify)
+    if (verifyError) return verifyError
+  }
+
+  if (body.totpSecret || body.totpSecretRef) {
+    try {
+      resolveTotpConfig(body)
+    } catch (err) {
+      return `Invalid TOTP configuration: ${err instanceof Error ? err.message : String(err)}`
+    }
+  }
+
+  if (body.sinks !== undefined && !Array.isArray(body.sinks)) {
+    return "sinks must be an array"
+  }
+  const sinksError = validateSinks(resolveSinks(body))
+  if (sinksError) return sinksError
+
+  if (body.redaction !== undefined) {
+    if (!body.redaction || typeof body.redaction !== "object") {
+      return "redaction must be an object"
+    }
+    if (body.redaction.response !== undefined) {
+      const redactionError = validateRedactionPolicy(body.redaction.response, "redaction.response")
+      if (redactionError) return redactionError
+    }
+  }
+
+  return null
+}
+
+/**
+ * Check the request's URLs and mailbox host against the URL policy with their hosts resolved, so names pointing at
+ * private addresses are rejected before the request is queued; validateLoginRequest only checks what needs no DNS
+ * @param body - Request that passed validateLoginRequest
+ * @returns Error message naming the rejected URL or host, or null when every one is allowed
+ */
+export async function validateRequestUrls(body: LoginRequest): Promise<string | null> {
+  const loginUrl = body.loginUrl || resolveLoginRecipe(body.targetUrl, body.recipe).loginUrl!
+  const loginError = await validateUrls(
+    [
+      { field: "targetUrl", url: body.targetUrl },
+      { field: "loginUrl", url: loginUrl },
+      ...(body.verify?.probe ? [{ field: "verify.probe.url", url: body.verify.probe.url }] : []),
+    ],
+    "login",
+  )
+  if (loginError) return loginError
+
+  const sinkUrls = resolveSinks(body).flatMap((sink, index) =>
+    "url" in sink ? [{ field: `sinks[${index}].url`, url: sink.url }] : [],
+  )
+  const sinkError = await validateUrls(sinkUrls, "sink")
+  if (sinkError || !body.emailCode?.imap?.host) return sinkError
+
+  try {
+    await assertHostAllowed(body.emailCode.imap.host)
+  } catch (err) {
+    if (err instanceof UrlPolicyError) return `emailCode.imap.host: ${err.message}`
+    throw err
+  }
+  return null
+}
+
+/**
+ * Whether a request carries secrets itself rather than referencing them, so it must not be stored
+ * @param request - Login request
+ * @returns True when a password, TOTP secret or mailbox password is inline
+ */
+export function hasInlineSecrets(request: Partial<LoginRequest>): boolean {
+  return !!(request.password || request.totpSecret || request.emailCode?.imap?.password)
+}
+
+/**
+ * Fill in username, password and TOTP secret from the vault when the request names a credential
+ * @param request - Validated login request
+ * @returns The request with its credentials in place
+ */
+async function applyStoredCredential(request: LoginRequest): Promise<LoginRequest & { username: string }> {
+  if (!request.credentialId) {
+    return { ...request, username: request.username! }
+  }
+
+  const secrets = await readCredentialSecrets(request.credentialId)
+  if (!secrets) {
+    throw new AutomationError(`Credential ${request.credentialId} not found`, { step: "load_credential" })
+  }
+  return { ...request, ...secrets }
+}
+
+function resolveTotpConfig({ totpSecret, totpSecretRef }: Partial<LoginRequest>) {
+  if (totpSecret && totpSecretRef) {
+    throw new Error("Provide either totpSecret or totpSecretRef, not both")
+  }
+  const secret = totpSecret ?? (totpSecretRef ? resolveTotpSecretRef(totpSecretRef) : undefined)
+  return secret ? parseTotpSecret(secret) : undefined
+}
+
+/**
+ * Create a step runner that records timings and reports them through the hooks
+ * @param hooks - Run lifecycle callbacks
+ * @returns Step wrapper and milestone reporter bound to the current step
+ */
+function createStepRunner(hooks: RunHooks): { step: StepRunner; report: MilestoneReporter } {
+  let currentStep: string | undefined
+
+  const report: MilestoneReporter = (code, message, data) => {
+    logger.info(message, { event: code, ...data })
+    hooks.onEvent?.({ type: "milestone", at: new Date().toISOString(), step: currentStep, code, message, data })
+  }
+
+  function finish(timing: StepTiming, update: Partial<StepTiming>) {
+    const finished: StepTiming = {
+      ...timing,
+      ...update,
+      finishedAt: new Date().toISOString(),
+      durationMs: Date.now() - new Date(timing.startedAt).getTime(),
+    }
+    ;(finished.status === "failed" ? logger.warn : logger.info)(`Step ${finished.name} ${finished.status}`, {
+      step: finished.name,
+      status: finished.status,
+      durationMs: finished.durationMs,
+      error: finished.error,
+    })
+    hooks.onStepEnd?.(finished)
+    hooks.onEvent?.({ type: "step_finished", at: finished.finishedAt!, step: finished })
+    currentStep = undefined
+  }
+
+  async function step<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    const timing: StepTiming = { name, status: "running", startedAt: new Date().toISOString() }
+    currentStep = name
+    hooks.onStepStart?.(timing)
+    hooks.onEvent?.({ type: "step_started", at: timing.startedAt, step: timing })
+
+    try {
+      // Lines logged by the step, down to the extractor and solver, carry its name
+      const result = await runWithLogContext({ step: name }, fn)
+      finish(timing, { status: "succeeded" })
+      return result
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      finish(timing, { status: "failed", error: message })
+      if (error instanceof AutomationError) {
+        error.step ??= name
+        throw error
+      }
+      throw new AutomationError(message, { step: name, cause: error })
+    }
+  }
+
+  return { step, report }
+}
+
+/**
+ * Run the full login, cookie extraction and webhook delivery flow
+ * @param body - Validated login request
+ * @param hooks - Run lifecycle callbacks
+ * @returns Result body returned to API callers
+ */
+export async function runLoginAutomation(request: LoginRequest, hooks: RunHooks = {}) {
+  const body = await applyStoredCredential(request)
+  const { targetUrl, username, password } = body
+  const recipe = resolveLoginRecipe(body.loginUrl || targetUrl, body.recipe)
+  const loginUrl = body.loginUrl || recipe.loginUrl!
+  const profile = resolveBrowserProfile(body.browserProfile)
+  const account = sessionAccount(body)
+  updateLogContext({ account })
+  const { step, report } = createStepRunner(hooks)
+  let browser: Browser | null = null
+  const blockedNavigations: BlockedRequest[] = []
+  const onBlocked = (blocked: BlockedRequest) => {
+    if (blocked.navigation) blockedNavigations.push(blocked)
+    report("url_blocked", blocked.reason, { url: blocked.url, navigation: blocked.navigation })
+  }
+
+  try {
+    browser = await step("launch_browser", async () => {
+      let chromium
+      try {
+        const playwright = await import("playwright")
+        chromium = playwright.chromium
+      } catch (err) {
+        logger.error("Playwright import failed", { error: err })
+        throw new Error("Playwright is not available. Ensure the app is deployed with Docker on Render.")
+      }
+
+      if (profile.name !== "secure") {
+        report("browser_profile", `Using the relaxed "${profile.name}" browser profile: ${profile.description}`, {
+          profile: profile.name,
+        })
+      }
+      return chromium.launch(launchOptions(profile))
+    })
+
+    const verificationConfig = mergeVerificationConfig(recipe.success, body.verify)
+    const storedSession = body.reuseSession ? await loadSession(account) : null
+    let { context, page } = await openContext(browser, profile, onBlocked, storedSession?.storageState)
+
+    // A restored session must end up off the login page, even when the login and target URL are the same
+    const restored = storedSession
+      ? await step("restore_session", async () => {
+          report("session_loaded", `Loaded session for ${account} saved at ${storedSession.savedAt}`, {
+            account,
+            savedAt: storedSession.savedAt,
+          })
+          try {
+            await page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: 30000 })
+            await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {})
+          } catch (e) {
+            report("session_expired", `Could not load ${targetUrl} with the stored session, logging in again`)
+            return null
+          }
+
+          const verification = await verifyLogin(page, context, loginUrl, targetUrl, {
+            ...verificationConfig,
+            leftLoginPage: verificationConfig.leftLoginPage ?? true,
+          })
+          for (const check of verification.checks) {
+            report("verification_check", check.detail, { check: check.name, passed: check.passed })
+          }
+          if (!verification.verified) {
+            report("session_expired", `Stored session for ${account} is no longer valid, logging in again`)
+            return null
+          }
+          report("session_restored", `Reusing stored session for ${account}`, { account })
+          return verification
+        })
+      : null
+
+    if (storedSession && !restored) {
+      await context.close()
+      ;({ context, page } = await openContext(browser, profile, onBlocked))
+    }
+
+    // Attached before the login navigates, so cookies set on redirects are seen too
+    const setCookieCapture = captureSetCookieHeaders(context)
+
+    const { verification, stages, consumedEmails, securityChallenges } = restored
+      ? {
+          verification: restored,
+          stages: [],
+          consumedEmails: [],
+          securityChallenges: { cloudflareDetected: false, captchaDetected: false, turnstilesolved: false },
+        }
+      : await loginWithCredentials({ page, context, body, recipe, loginUrl, verificationConfig, step, report })
+
+    if (!verification.verified) {
+      const failed = verification.checks.filter((c) => !c.passed)
+      return {
+        status: "login_failed" as const,
+        message: `Login could not be verified: ${failed.map((c) => c.detail).join("; ")}`,
+        webhookSent: false,
+        recipe: recipe.name,
+        browserProfile: profile.name,
+        stages,
+        consumedEmails,
+        verification,
+        debugInfo: {
+          pageUrl: page.url(),
+          pageTitle: await page.title().catch(() => "Unknown"),
+        },
+      }
+    }
+
+    // Bearer tokens often only show up on API calls the app makes once logged in
+    const authHeaderCapture = captureAuthHeaders(page)
+
+    // A restored session already loaded the target, but loading it again lets the header capture see its API calls
+    if (restored || targetUrl !== loginUrl) {
+      await step("navigate_target", async () => {
+        logger.info(`Navigating to target ${targetUrl} to ensure session propagation`)
+        try {
+          await page.goto(targetUrl, { waitUntil: "domcontentloaded", timeout: 20000 })
+          await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {})
+        } catch (e) {
+          logger.warn("Target URL navigation timed out, proceeding with extraction", { error: e })
+        }
+      })
+    }
+
+    const { contextCookies, jsCookies, headerCookies, setCookieEvents, allCookies, extractionMethod } = await step(
+      "extract_cookies",
+      async () => {
+        report("extraction_started", "========== COOKIE EXTRACTION START ==========")
+
+        // Method 1: Extract from browser context (MOST RELIABLE)
+        logger.debug("Method 1: Extracting cookies from browser context")
+        const contextCookies = await extractAllCookies(context)
+        report("extraction_method", `Method 1 (Context): Extracted ${contextCookies.length} cookies`, {
+          method: "context",
+          count: contextCookies.length,
+        })
+        if (contextCookies.length > 0) {
+          logger.debug("Context cookies sample", { names: contextCookies.slice(0, 3).map((c) => c.name) })
+        }
+
+        // Method 2: Extract via JavaScript
+        logger.debug("Method 2: Extracting cookies via JavaScript")
+        const jsCookies = await extractViaJavaScript(page)
+        report("extraction_method", `Method 2 (JavaScript): Extracted ${jsCookies.length} cookies`, {
+          method: "javascript",
+          count: jsCookies.length,
+        })
+        if (jsCookies.length > 0) {
+          logger.debug("JS cookies sample", { names: jsCookies.slice(0, 3).map((c) => c.name) })
+        }
+
+        // Method 3: Set-Cookie response headers seen since the login started
+        logger.debug("Method 3: Collecting cookies from Set-Cookie response headers")
+        const { events: setCookieEvents, cookies: headerCookies } = await setCookieCapture.stop()
+        report(
+          "extraction_method",
+          `Method 3 (Headers): ${headerCookies.length} cookies from ${setCookieEvents.length} Set-Cookie headers`,
+          { method: "headers", count: headerCookies.length, headers: setCookieEvents.length },
+        )
+
+        const allCookies = mergeCookies(contextCookies, jsCookies, headerCookies)
+        const sources = { context: contextCookies, javascript: jsCookies, headers: headerCookies }
+        const extractionMethod =
+          Object.entries(sources)
+            .filter(([, cookies]) => allCookies.some((c) => cookies.includes(c)))
+            .map(([method]) => method)
+            .join("+") || "none"
+
+        logger.info(`Merged ${allCookies.length} cookies from ${extractionMethod}`, {
+          cookies: allCookies.length,
+          extractionMethod,
+        })
+
+        return { contextCookies, jsCookies, headerCookies, setCookieEvents, allCookies, extractionMethod }
+      },
+    )
+
+    const { localStorage, sessionStorage, authHeaders } = await step("extract_storage", async () => {
+      const storage = await extractWebStorage(page, context)
+      const authHeaders = await authHeaderCapture.stop()
+      report(
+        "extraction_method",
+        `Web storage: ${storage.localStorage.length} localStorage and ${storage.sessionStorage.length} sessionStorage entries, ${authHeaders.length} auth headers`,
+        {
+          method: "storage",
+          localStorage: storage.localStorage.length,
+          sessionStorage: storage.sessionStorage.length,
+          authHeaders: authHeaders.length,
+        },
+      )
+      return { ...storage, authHeaders }
+    })
+    const criticalStorageEntries = [...localStorage, ...sessionStorage, ...authHeaders].filter((e) => e.critical).length
+
+    const criticalCookieNames = identifyCriticalCookies(allCookies)
+    logger.info(`Identified ${criticalCookieNames.length} critical cookies`, { names: criticalCookieNames })
+
+    const savedSession = await step("save_session", async () => {
+      const saved = await saveSession(account, targetUrl, await context.storageState(), {
+        criticalCookies: allCookies.filter((c) => criticalCookieNames.includes(c.name)),
+        // Only requests without inline secrets can be kept for a later re-login
+        refreshRequest: hasInlineSecrets(request) ? undefined : { ...request, account, reuseSession: false },
+        refreshMarginMinutes: body.refreshMarginMinutes,
+      })
+      report("session_saved", `Saved session for ${account}`, {
+        account,
+        expiresAt: saved.expiresAt,
+        refreshAt: saved.refresh?.refreshAt,
+      })
+      return saved
+    })
+    const session = {
+      account,
+      reused: !!restored,
+      savedAt: savedSession.savedAt,
+      expiresAt: savedSession.expiresAt,
+      refreshAt: savedSession.refresh?.refreshAt,
+    }
+
+    const sessionTokens = extractSessionTokens(allCookies)
+    logger.info(`Found ${sessionTokens.length} session tokens (length > 100 chars)`, {
+      tokens: sessionTokens.flatMap((token) => describeSecretForLog("sessionTokens", token.name, token.value) ?? []),
+    })
+
+    const cookieString = buildCookieHeader(allCookies, targetUrl)
+    const setCookieStrings = buildSetCookieString(allCookies)
+    const cookieExport = body.format ? exportCookies(allCookies, body.format, targetUrl) : undefined
+
+    logger.info(`Total cookies extracted: ${allCookies.length}`, { cookieStringLength: cookieString.length })
+    report("extraction_complete", "========== COOKIE EXTRACTION COMPLETE ==========", {
+      totalCookies: allCookies.length,
+      criticalCookies: criticalCookieNames.length,
+    })
+
+    const payload = {
+      targetUrl,
+      loginUrl,
+      username,
+      timestamp: new Date().toISOString(),
+      extraction: {
+        totalCookies: allCookies.length,
+        criticalCookies: criticalCookieNames.length,
+        sessionTokens: sessionTokens.length,
+        cookieStringLength: cookieString.length,
+        extractionMethod: extractionMethod,
+        localStorageEntries: localStorage.length,
+        sessionStorageEntries: sessionStorage.length,
+        authHeaders: authHeaders.length,
+        criticalStorageEntries,
+      },
+      criticalCookieNames: criticalCookieNames,
+      sessionTokens: sessionTokens.map((t) => ({
+        name: t.name,
+        length: t.length,
+        value: t.value, // Full value; each sink applies its own redaction
+      })),
+      cookies: allCookies, // All cookies with full values, redacted per sink
+      localStorage,
+      sessionStorage,
+      authHeaders,
+      cookieString: cookieString,
+      setCookieHeaders: setCookieStrings,
+      export: cookieExport,
+      extractionMethods: {
+        contextCookies: contextCookies.length,
+        jsCookies: jsCookies.length,
+        headerCookies: headerCookies.length,
+        methodUsed: extractionMethod,
+      },
+      setCookieEvents,
+      debugInfo: {
+        pageUrl: page.url(),
+        pageTitle: await page.title().catch(() => "Unknown"),
+        extractedAt: new Date().toISOString(),
+        recipe: recipe.name,
+        browserProfile: profile.name,
+        stages,
+        consumedEmails,
+        verification,
+        session,
+        securityChallenges,
+      },
+    }
+
+    const sinkResults = await step("deliver_sinks", async () => {
+      const sinkResults: SinkResult[] = []
+      for (const sink of resolveSinks(body)) {
+        report("sink_attempt", `Delivering to ${sink.type} sink`, { type: sink.type })
+        // Webhook sinks are persisted first; the scheduler retries them with backoff if this attempt fails
+        const result = await deliverToSink(sink, payload, { account, expiresAt: session.expiresAt })
+        report(
+          "sink_result",
+          result.delivered
+            ? `Delivered to ${sink.type} sink`
+            : `${sink.type} sink failed${result.delivery ? ", retrying later" : ""}: ${result.error}`,
+          { type: sink.type, delivered: result.delivered, deliveryId: result.delivery?.id },
+        )
+        sinkResults.push(result)
+      }
+      return sinkResults
+    })
+    const webhookResults = sinkResults.filter((r) => r.delivery)
+    const webhookSuccess = webhookResults.length > 0 && webhookResults.every((r) => r.delivered)
+    const failedSinks = sinkResults.filter((r) => !r.delivered)
+
+    await browser.close()
+    browser = null
+
+    const redaction = resolveRedaction("response", body.redaction?.response)
+    const result = {
+      status: "success" as const,
+      message: `Successfully extracted ${allCookies.length} cookies (${criticalCookieNames.length} critical, ${sessionTokens.length} session tokens) and delivered to ${sinkResults.length - failedSinks.length}/${sinkResults.length} sinks`,
+      webhookSent: webhookSuccess,
+      webhookError: failedSinks.find((r) => r.delivery)?.error,
+      sinks: sinkResults,
+      targetUrl,
+      recipe: recipe.name,
+      browserProfile: profile.name,
+      stages,
+      consumedEmails,
+      verification,
+      session,
+      securityChallenges,
+      extraction: {
+        totalCookies: allCookies.length,
+        criticalCookies: criticalCookieNames.length,
+        sessionTokens: sessionTokens.length,
+        cookieStringLength: cookieString.length,
+        extractionMethod: extractionMethod,
+        localStorageEntries: localStorage.length,
+        sessionStorageEntries: sessionStorage.length,
+        authHeaders: authHeaders.length,
+        criticalStorageEntries,
+      },
+      criticalCookieNames: criticalCookieNames,
+      sessionTokens: sessionTokenSummaries(sessionTokens),
+      cookies: allCookies,
+      localStorage,
+      sessionStorage,
+      authHeaders,
+      cookieString: cookieString,
+      export: cookieExport,
+      extractionMethods: {
+        context: contextCookies.length,
+        javascript: jsCookies.length,
+        headers: headerCookies.length,
+        used: extractionMethod,
+      },
+      setCookieEvents,
+      redaction,
+    }
+    return redactPayload(result, redaction)
+  } catch (error) {
+    // A navigation the URL policy stopped only shows up as a blocked or closed page; name the URL instead
+    if (blockedNavigations.length > 0) {
+      throw new AutomationError(blockedNavigations[0].reason, {
+        step: error instanceof AutomationError ? error.step : undefined,
+        cause: error,
+      })
+    }
+    throw error
+  } finally {
+    if (browser) {
+      await browser.close().catch((err) => {
+        logger.error("Browser cleanup failed", { error: err })
+      })
+    }
+  }
+}
+
+export type LoginResult = Awaited<ReturnType<typeof runLoginAutomation>>
+
+/**
+ * Session tokens as a job result lists them. Values are still in full; redactPayload applies the response
+ * policy to them and cuts the preview from the redacted value.
+ * @param tokens - Tokens from extractSessionTokens
+ * @returns One entry per token
+ */
+export function sessionTokenSummaries(tokens: { name: string; value: string; length: number }[]) {
+  return tokens.map((token) => ({
+    name: token.name,
+    length: token.length,
+    value: token.value,
+    preview: tokenPreview(token.value),
+    fullLength: token.value.length,
+  }))
+}
+
+/**
+ * Open a browser context and page with the stealth overrides and the URL policy applied
+ * @param browser - Launched browser
+ * @param profile - Launch profile, which decides whether certificate errors are ignored
+ * @param onBlocked - Called for each request the URL policy stops
+ * @param storageState - Saved cookies and localStorage to start from
+ * @returns The new context and its page
+ */
+async function openContext(
+  browser: Browser,
+  profile: BrowserProfile,
+  onBlocked: (blocked: BlockedRequest) => void,
+  storageState?: StorageState,
+) {
+  const context = await browser.newContext({
+    storageState,
+    userAgent:
+      "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+    viewport: { width: 1920, height: 1080 },
+    locale: "en-US",
+    timezoneId: "America/New_York",
+    ...contextOptions(profile),
+    extraHTTPHeaders: {
+      "Accept-Language": "en-US,en;q=0.9",
+      Accept:
+        "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8,application/signed-exchange;v=b3;q=0.7",
+    },
+  })
+
+  await guardBrowserContext(context, onBlocked)
+  const page = await context.newPage()
+
+  await page.addInitScript(() => {
+    // Override navigator.webdriver
+    Object.defineProperty(navigator, "webdriver", {
+      get: () => false,
+    })
+
+    // Override chrome property
+    ;(window as any).chrome = {
+      runtime: {},
+    }
+
+    // Override permissions
+    const originalQuery = window.navigator.permissions.query
+    window.navigator.permissions.query = (parameters: any) =>
+      parameters.name === "notifications"
+        ? Promise.resolve({ state: Notification.permission } as PermissionStatus)
+        : originalQuery(parameters)
+
+    // Override plugins
+    Object.defineProperty(navigator, "plugins", {
+      get: () => [1, 2, 3, 4, 5],
+    })
+
+    // Override languages
+    Object.defineProperty(navigator, "languages", {
+      get: () => ["en-US", "en"],
+    })
+  })
+
+  return { context, page }
+}
+
+/**
+ * Log in with the request's credentials by running the recipe, then verify the result
+ * @param options - Page to log in on and the run's settings
+ * @returns Verification outcome, stage results and challenges met on the way
+ */
+async function loginWithCredentials({
+  page,
+  context,
+  body,
+  recipe,
+  loginUrl,
+  verificationConfig,
+  step,
+  report,
+}: {
+  page: Page
+  context: BrowserContext
+  body: LoginRequest & { username: string }
+  recipe: LoginRecipe
+  loginUrl: string
+  verificationConfig: VerificationConfig
+  step: StepRunner
+  report: MilestoneReporter
+}) {
+  const { targetUrl, username, password } = body
+
+  await step("navigate_login", async () => {
+    let navigationSuccess = false
+    let lastError: Error | null = null
+
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      try {
+        report("navigation_attempt", `Attempt ${attempt}: Navigating to ${loginUrl}`, { attempt, url: loginUrl })
+        await page.goto(loginUrl, {
+          waitUntil: "domcontentloaded",
+          timeout: 30000,
+        })
+
+        try {
+          await page.waitForLoadState("networkidle", { timeout: 10000 })
+        } catch (e) {
+          logger.debug("networkidle timed out, proceeding anyway")
+        }
+
+        navigationSuccess = true
+        report("page_loaded", `Successfully loaded ${loginUrl}`, { url: loginUrl })
+        break
+      } catch (navError) {
+        lastError = navError instanceof Error ? navError : new Error(String(navError))
+        report("navigation_failed", `Navigation attempt ${attempt} failed: ${lastError.message}`, {
+          attempt,
+          error: lastError.message,
+        })
+        if (attempt < 3) {
+          await new Promise((resolve) => setTimeout(resolve, 2000))
+        }
+      }
+    }
+
+    if (!navigationSuccess) {
+      throw new Error(
+        `Failed to load login page after 3 attempts: ${lastError?.message || "Unknown error"}. This may be due to slow network, blocking, or the 30s timeout limit.`,
+      )
+    }
+
+    try {
+      await page.waitForLoadState("load", { timeout: 15000 })
+    } catch (e) {
+      logger.debug("Initial load state wait timed out, continuing")
+    }
+    await page.waitForTimeout(3000)
+  })
+
+  const { turnstileResult, turnstilesolved, turnstileMethod } = await step("turnstile", async () => {
+    logger.debug("Checking for Cloudflare Turnstile challenge")
+    const turnstileResult = await solveTurnstileChallenge(page)
+
+    let turnstilesolved = false
+    let turnstileMethod: string | undefined = undefined
+
+    if (turnstileResult.success) {
+      report("turnstile_checked", `Turnstile handling: ${turnstileResult.message}`, {
+        solved: !!turnstileResult.method,
+        method: turnstileResult.method,
+      })
+      if (turnstileResult.method) {
+        turnstileMethod = turnstileResult.method
+        turnstilesolved = true
+      }
+      // Wait a bit after solving
+      await page.waitForTimeout(2000)
+    } else {
+      report("turnstile_checked", `Turnstile handling failed: ${turnstileResult.message}`, { solved: false })
+      // Continue anyway - might not be a hard blocker
+    }
+
+    return { turnstileResult, turnstilesolved, turnstileMethod }
+  })
+
+  report("recipe_selected", `Using login recipe: ${recipe.name}`, { recipe: recipe.name })
+  const {
+    captchaDetected: hasCaptcha,
+    stages,
+    consumedEmails,
+  } = await runLoginFlow({
+    page,
+    context,
+    recipe,
+    credentials: { username, password: password ?? "" },
+    totp: resolveTotpConfig(body),
+    emailCode: body.emailCode,
+    step,
+    report,
+  })
+
+  // Checked on the page the login flow ended on, before navigating away from it
+  const verification = await step("verify_login", async () => {
+    const verification = await verifyLogin(
+      page,
+      context,
+      loginUrl,
+      targetUrl,
+      mergeVerificationConfig(recipe.success, body.verify),
+    )
+    for (const check of verification.checks) {
+      report("verification_check", check.detail, { check: check.name, passed: check.passed })
+    }
+    report(
+      verification.verified ? "login_verified" : "login_not_verified",
+      verification.verified ? "Login verified" : "Login could not be verified, cookies will not be sent",
+      { url: page.url() },
+    )
+    return verification
+  })
+
+  return {
+    verification,
+    stages,
+    consumedEmails,
+    securityChallenges: {
+      cloudflareDetected: turnstileResult.success || !!turnstileMethod,
+      captchaDetected: !!hasCaptcha,
+      turnstilesolved: turnstilesolved,
+      turnstileMethod: turnstileMethod,
+    },
+  }
+}
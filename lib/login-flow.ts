@@ -0,0 +1,541 @@
+// Executes login recipe steps against a Playwright page
+
+import type { BrowserContext, ElementHandle, Page } from "playwright"
+import {
+  GENERIC_RECIPE,
+  getRecipeStages,
+  type CredentialField,
+  type LoginRecipe,
+  type RecipeStep,
+} from "@/lib/login-recipes"
+import type { MilestoneReporter, StepRunner } from "@/lib/login-automation"
+import { logger } from "@/lib/logger"
+import { generateTotp, secondsRemaining, type TotpConfig } from "@/lib/totp"
+import { waitForEmailCode, type ConsumedEmail, type EmailCodeConfig } from "@/lib/mailbox"
+
+export interface LoginFlowContext {
+  page: Page
+  context: BrowserContext
+  recipe: LoginRecipe
+  credentials: Record<CredentialField, string>
+  totp?: TotpConfig
+  emailCode?: EmailCodeConfig
+  step: StepRunner
+  report: MilestoneReporter
+}
+
+export interface StageResult {
+  name: string
+  status: "completed" | "skipped" | "failed"
+  startedAt: string
+  durationMs: number
+  /** Page URL when the stage finished */
+  url: string
+  error?: string
+}
+
+export interface LoginFlowResult {
+  captchaDetected: boolean
+  stages: StageResult[]
+  /** Emails whose code or link was used during this run */
+  consumedEmails: ConsumedEmail[]
+}
+
+interface FlowState {
+  startedAt: Date
+  lastFilledField: ElementHandle | null
+  captchaDetected: boolean
+  consumedEmails: ConsumedEmail[]
+}
+
+/**
+ * Run every stage of the recipe in order, each step as its own timed step
+ * @param ctx - Page, recipe, credentials and step reporting
+ * @returns Per-stage outcomes and flags collected while running the steps
+ */
+export async function runLoginFlow(ctx: LoginFlowContext): Promise<LoginFlowResult> {
+  const state: FlowState = { startedAt: new Date(), lastFilledField: null, captchaDetected: false, consumedEmails: [] }
+  const stages: StageResult[] = []
+
+  for (const stage of getRecipeStages(ctx.recipe)) {
+    const started = Date.now()
+    const finishStage = (status: StageResult["status"], error?: string) => {
+      const result = {
+        name: stage.name,
+        status,
+        startedAt: new Date(started).toISOString(),
+        durationMs: Date.now() - started,
+        url: ctx.page.url(),
+        error,
+      }
+      stages.push(result)
+      ctx.report(`stage_${status}`, `Stage ${stage.name} ${status}`, { stage: stage.name, url: result.url })
+    }
+
+    const whenSelectors =
+      typeof stage.when === "string"
+        ? (ctx.recipe.selectors[stage.when] ?? GENERIC_RECIPE.selectors[stage.when] ?? [])
+        : stage.when
+    if (whenSelectors && !(await findVisible(ctx.page, whenSelectors))) {
+      finishStage("skipped")
+      continue
+    }
+
+    const usedNames = new Map<string, number>()
+    try {
+      for (const recipeStep of stage.steps) {
+        const baseName = `${stage.name}.${stepName(recipeStep)}`
+        const count = (usedNames.get(baseName) ?? 0) + 1
+        usedNames.set(baseName, count)
+        const name = count > 1 ? `${baseName}#${count}` : baseName
+
+        await ctx.step(name, () => executeStep(ctx, recipeStep, state))
+      }
+    } catch (error) {
+      finishStage("failed", error instanceof Error ? error.message : String(error))
+      throw error
+    }
+    finishStage("completed")
+  }
+
+  return { captchaDetected: state.captchaDetected, stages, consumedEmails: state.consumedEmails }
+}
+
+/**
+ * Find the first selector with a visible match on the page
+ * @param page - Playwright page
+ * @param selectors - Candidate selectors
+ * @returns The matching selector, or null when none is visible
+ */
+async function findVisible(page: Page, selectors: string[]): Promise<string | null> {
+  for (const selector of selectors) {
+    const element = await page.$(selector).catch(() => null)
+    if (element && (await element.isVisible().catch(() => false))) {
+      return selector
+    }
+  }
+  return null
+}
+
+function stepName(recipeStep: RecipeStep): string {
+  switch (recipeStep.type) {
+    case "fill":
+      return `fill_${recipeStep.field}`
+    case "click":
+      return "click"
+    case "submit":
+      return "submit"
+    case "submitIdentifier":
+      return "submit_identifier"
+    case "chooseAccount":
+      return "choose_account"
+    case "totp":
+      return "enter_totp"
+    case "emailCode":
+      return "enter_email_code"
+    case "oneTimeCode":
+      return "enter_one_time_code"
+    case "waitForSelector":
+      return "wait_for_selector"
+    case "waitForUrl":
+      return "wait_for_url"
+  }
+}
+
+async function executeStep(ctx: LoginFlowContext, recipeStep: RecipeStep, state: FlowState) {
+  switch (recipeStep.type) {
+    case "fill":
+      state.lastFilledField = await fillField(ctx, recipeStep.field, recipeStep.selectors)
+      return
+    case "click":
+      await clickElement(ctx, recipeStep)
+      return
+    case "submit":
+      await submitForm(ctx, recipeStep.selectors ?? ctx.recipe.selectors.submit, state)
+      return
+    case "submitIdentifier":
+      await submitIdentifier(ctx, recipeStep, state)
+      return
+    case "chooseAccount":
+      await chooseAccount(ctx, recipeStep.selectors)
+      return
+    case "totp":
+      await enterTotp(ctx, recipeStep.selectors)
+      return
+    case "emailCode":
+      await useEmailCode(ctx, recipeStep.selectors, state)
+      return
+    case "oneTimeCode":
+      // Use whichever code source the request configured
+      if (ctx.totp || !ctx.emailCode) await enterTotp(ctx, recipeStep.selectors)
+      else await useEmailCode(ctx, recipeStep.selectors, state)
+      return
+    case "waitForSelector":
+      await ctx.page.waitForSelector(recipeStep.selector, {
+        state: recipeStep.state ?? "visible",
+        timeout: recipeStep.timeoutMs ?? 15000,
+      })
+      ctx.report("selector_appeared", `Selector appeared: ${recipeStep.selector}`, { selector: recipeStep.selector })
+      return
+    case "waitForUrl":
+      await ctx.page.waitForURL(urlMatcher(recipeStep.url), { timeout: recipeStep.timeoutMs ?? 30000 })
+      ctx.report("redirected", `URL matched ${recipeStep.url}: ${ctx.page.url()}`, { url: ctx.page.url() })
+      return
+  }
+}
+
+/**
+ * Glob patterns are passed to Playwright as-is; anything else matches as a substring
+ */
+function urlMatcher(pattern: string): string | ((url: URL) => boolean) {
+  return pattern.includes("*") ? pattern : (url: URL) => url.href.includes(pattern)
+}
+
+async function fillField(ctx: LoginFlowContext, field: CredentialField, selectors?: string[]) {
+  const { page, report } = ctx
+
+  let element = null
+  for (const selector of selectors ?? ctx.recipe.selectors[field]) {
+    try {
+      element = await page.waitForSelector(selector, { timeout: 3000, state: "attached" })
+      if (element) {
+        const isVisible = await element.isVisible()
+        report("field_found", `Found ${field} field with selector: ${selector} (visible: ${isVisible})`, {
+          field,
+          selector,
+          visible: isVisible,
+        })
+        break
+      }
+    } catch {
+      continue
+    }
+  }
+
+  if (!element) {
+    if (field === "username") {
+      const inputs = await page.$$eval("input", (els) =>
+        els.map((el) => ({
+          type: el.type,
+          name: el.name,
+          id: el.id,
+          placeholder: el.placeholder,
+          dataCy: el.getAttribute("data-cy"),
+        })),
+      )
+      logger.warn("Username field not found", { title: await page.title(), url: page.url(), inputs })
+      throw new Error(
+        "Could not find username/email input field. The page may have a different structure or be blocking automation.",
+      )
+    }
+    throw new Error(`Could not find ${field} input field`)
+  }
+
+  if (!ctx.credentials[field]) {
+    throw new Error(`The page asks for a ${field} but none was provided`)
+  }
+
+  await element.click()
+  await page.waitForTimeout(300)
+  await element.fill("")
+  await element.type(ctx.credentials[field], { delay: 120 })
+  report("field_filled", `Filled ${field} field`, { field })
+  await page.waitForTimeout(field === "password" ? 1000 : 500)
+
+  return element
+}
+
+async function clickElement(ctx: LoginFlowContext, recipeStep: Extract<RecipeStep, { type: "click" }>) {
+  const { page, report } = ctx
+
+  for (const selector of recipeStep.selectors) {
+    try {
+      const element = await page.waitForSelector(selector, { timeout: 2000, state: "visible" })
+      if (!element) continue
+
+      report("clicked", `Clicking element with selector: ${selector}`, { selector })
+      if (recipeStep.waitForNavigation) {
+        await Promise.all([
+          page.waitForNavigation({ waitUntil: "networkidle", timeout: 30000 }).catch(() => {}),
+          element.click({ timeout: 5000 }),
+        ])
+      } else {
+        await element.click({ timeout: 5000 })
+        await page.waitForTimeout(1000)
+      }
+      return
+    } catch {
+      continue
+    }
+  }
+
+  if (!recipeStep.optional) {
+    throw new Error(`Could not find element to click: ${recipeStep.selectors.join(", ")}`)
+  }
+}
+
+/**
+ * Advance an identifier-first form to its password screen.
+ * Does nothing when the password field is already visible (single-screen forms).
+ */
+async function submitIdentifier(
+  ctx: LoginFlowContext,
+  recipeStep: Extract<RecipeStep, { type: "submitIdentifier" }>,
+  state: FlowState,
+) {
+  const { page, report, recipe } = ctx
+  // The next screen asks for either a password or an emailed/app one-time code
+  const nextFormSelectors = [...recipe.selectors.password, ...(recipe.selectors.otp ?? GENERIC_RECIPE.selectors.otp!)]
+
+  if (await findVisible(page, recipe.selectors.password)) {
+    report("identifier_skipped", "Password field already visible, no identifier screen to submit")
+    return
+  }
+
+  const nextSelector = await findVisible(
+    page,
+    recipeStep.selectors ?? recipe.selectors.next ?? GENERIC_RECIPE.selectors.next!,
+  )
+  if (nextSelector) {
+    report("identifier_submitted", `Submitting identifier with selector: ${nextSelector}`, { selector: nextSelector })
+    await page.click(nextSelector, { timeout: 5000 })
+  } else if (state.lastFilledField) {
+    report("identifier_submitted", "Submitting identifier with Enter key", { method: "enter" })
+    await state.lastFilledField.press("Enter")
+  } else {
+    throw new Error("Could not find a button to continue past the identifier screen")
+  }
+
+  // Wait for the next screen to render its password or code field
+  const deadline = Date.now() + (recipeStep.timeoutMs ?? 15000)
+  while (Date.now() < deadline) {
+    const selector = await findVisible(page, nextFormSelectors)
+    if (selector) {
+      report("next_form_ready", `Next screen ready (${selector})`, { selector, url: page.url() })
+      return
+    }
+    await page.waitForTimeout(500)
+  }
+
+  throw new Error("Neither a password field nor a code input appeared after submitting the identifier")
+}
+
+/**
+ * Pick the configured account on a "choose an account" screen, or fall back to "use another account"
+ */
+async function chooseAccount(ctx: LoginFlowContext, selectors?: string[]) {
+  const { page, report, recipe, credentials } = ctx
+  const tileSelectors = selectors ?? recipe.selectors.accountChooser ?? GENERIC_RECIPE.selectors.accountChooser!
+
+  for (const selector of tileSelectors) {
+    const tile = page.locator(selector).filter({ hasText: credentials.username }).first()
+    if (await tile.isVisible().catch(() => false)) {
+      report("account_chosen", `Chose existing account tile with selector: ${selector}`, { selector })
+      await tile.click({ timeout: 5000 })
+      await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {})
+      return
+    }
+  }
+
+  const otherSelector = await findVisible(
+    page,
+    recipe.selectors.useAnotherAccount ?? GENERIC_RECIPE.selectors.useAnotherAccount!,
+  )
+  if (!otherSelector) {
+    throw new Error(`Account chooser shown but no tile matches ${credentials.username}`)
+  }
+
+  report("account_chosen", "No tile for this account, choosing another account", { selector: otherSelector })
+  await page.click(otherSelector, { timeout: 5000 })
+  await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {})
+}
+
+/**
+ * Fill the two-factor prompt with the current TOTP code and submit it
+ */
+async function enterTotp(ctx: LoginFlowContext, selectors?: string[]) {
+  const { page, totp } = ctx
+  const otpSelector = await findOtpInput(ctx, selectors)
+
+  if (!totp) {
+    throw new Error("Two-factor code requested but no TOTP secret was provided (totpSecret or totpSecretRef)")
+  }
+
+  // Avoid submitting a code that expires while it is being typed
+  if (secondsRemaining(totp) < 5) {
+    await page.waitForTimeout(secondsRemaining(totp) * 1000 + 500)
+  }
+
+  await submitOneTimeCode(ctx, otpSelector, generateTotp(totp), "totp")
+}
+
+/**
+ * Wait for the emailed code or magic link, then enter the code or open the link
+ */
+async function useEmailCode(ctx: LoginFlowContext, selectors: string[] | undefined, state: FlowState) {
+  const { page, report, emailCode } = ctx
+
+  if (!emailCode) {
+    throw new Error("The site sent a code by email but no emailCode mailbox was configured")
+  }
+
+  // Magic-link flows show no input; only look for one when a code is expected
+  const otpSelector = emailCode.linkPattern ? null : await findOtpInput(ctx, selectors)
+
+  report("email_polling", `Waiting for login email in ${emailCode.imap.mailbox ?? "INBOX"}`, {
+    from: emailCode.from,
+    subject: emailCode.subject,
+  })
+  const match = await waitForEmailCode(emailCode, state.startedAt, (attempt) => {
+    report("email_polling", `No matching email yet (poll ${attempt})`, { attempt })
+  })
+  state.consumedEmails.push(match.message)
+  report("email_received", `Using ${match.message.kind} from email "${match.message.subject ?? ""}"`, {
+    uid: match.message.uid,
+    messageId: match.message.messageId,
+    kind: match.message.kind,
+  })
+
+  if (match.link) {
+    await page.goto(match.link, { waitUntil: "domcontentloaded", timeout: 30000 })
+    await page.waitForLoadState("networkidle", { timeout: 10000 }).catch(() => {})
+    report("submitted", `Opened login link, now at ${page.url()}`, { method: "email_link", url: page.url() })
+    return
+  }
+
+  await submitOneTimeCode(ctx, otpSelector!, match.code!, "email_code")
+}
+
+async function findOtpInput(ctx: LoginFlowContext, selectors?: string[]): Promise<string> {
+  const otpSelector = await findVisible(
+    ctx.page,
+    selectors ?? ctx.recipe.selectors.otp ?? GENERIC_RECIPE.selectors.otp!,
+  )
+  if (!otpSelector) {
+    throw new Error("Could not find the one-time code input")
+  }
+  ctx.report("otp_prompt_detected", `One-time code prompt detected with selector: ${otpSelector}`, {
+    selector: otpSelector,
+  })
+  return otpSelector
+}
+
+async function submitOneTimeCode(ctx: LoginFlowContext, otpSelector: string, code: string, method: string) {
+  const { page, report, recipe } = ctx
+
+  // Split single-digit inputs advance focus on their own, so type rather than fill
+  await page.click(otpSelector)
+  await page.fill(otpSelector, "").catch(() => {})
+  await page.keyboard.type(code, { delay: 80 })
+  report("otp_filled", "Entered one-time code", { digits: code.length, method })
+  await page.waitForTimeout(500)
+
+  const submitSelector = await findVisible(page, recipe.selectors.submit)
+  await Promise.all([
+    page.waitForNavigation({ waitUntil: "networkidle", timeout: 30000 }).catch(() => {}),
+    submitSelector ? page.click(submitSelector, { timeout: 5000 }) : page.keyboard.press("Enter"),
+  ])
+  await page.waitForTimeout(3000)
+
+  if (await findVisible(page, [otpSelector])) {
+    throw new Error("The code prompt is still shown after submitting the code; it may be wrong or expired")
+  }
+  report("submitted", `Submitted one-time code, now at ${page.url()}`, { method, url: page.url() })
+}
+
+async function submitForm(ctx: LoginFlowContext, submitSelectors: string[], state: FlowState) {
+  const { page, report } = ctx
+
+  // Check for checkboxes/agreements
+  logger.debug("Checking for checkboxes/agreements")
+  const checkboxes = await page.$$('input[type="checkbox"]')
+  for (const checkbox of checkboxes) {
+    try {
+      const isVisible = await checkbox.isVisible()
+      const isCfCheckbox = await checkbox.evaluate((el) => {
+        const element = el as HTMLInputElement
+        return element.name === "cf-turnstile-response" || element.closest(".cf-turnstile") !== null
+      })
+
+      if (isVisible && !isCfCheckbox) {
+        const isChecked = await checkbox.isChecked()
+        if (!isChecked) {
+          await checkbox.click()
+          logger.debug("Checked a checkbox")
+          await page.waitForTimeout(300)
+        }
+      }
+    } catch (e) {}
+  }
+
+  // Check for CAPTCHA
+  const hasCaptcha = await page.$('iframe[src*="captcha"], iframe[title*="reCAPTCHA"], iframe[src*="hcaptcha"]')
+  if (hasCaptcha) {
+    state.captchaDetected = true
+    throw new Error("CAPTCHA detected - automation cannot proceed through visual CAPTCHA verification")
+  }
+
+  // Find submit button
+  let submitButton = null
+  for (const selector of submitSelectors) {
+    try {
+      submitButton = await page.waitForSelector(selector, { timeout: 2000, state: "visible" })
+      if (submitButton) {
+        report("submit_found", `Found submit button with selector: ${selector}`, { selector })
+        break
+      }
+    } catch {
+      continue
+    }
+  }
+
+  if (!submitButton) {
+    throw new Error("Could not find submit button")
+  }
+
+  // Waiting for submit button to be truly enabled...
+  logger.debug("Waiting for submit button to be enabled")
+  for (let i = 0; i < 40; i++) {
+    // 20 seconds total
+    const isEnabled = await submitButton.evaluate((btn) => {
+      const element = btn as HTMLButtonElement
+      return !element.disabled && element.getAttribute("aria-disabled") !== "true"
+    })
+
+    if (isEnabled) {
+      report("button_enabled", `Button enabled after ${i * 0.5} seconds`, { seconds: i * 0.5 })
+      break
+    }
+    await page.waitForTimeout(500)
+  }
+
+  try {
+    logger.debug("Clicking submit button and waiting for navigation")
+    await Promise.all([
+      page
+        .waitForNavigation({
+          waitUntil: "networkidle",
+          timeout: 60000,
+        })
+        .catch((err) => {
+          logger.warn(`Navigation/networkidle timeout: ${err.message}. Checking current state`)
+        }),
+      submitButton.click({ timeout: 5000 }),
+    ])
+    report("submitted", "Clicked submit button and processed navigation", { method: "click" })
+  } catch (clickErr) {
+    if (!state.lastFilledField) throw clickErr
+
+    // Fallback: try keyboard submit if click fails
+    logger.warn("Click failed, trying Enter key", { error: clickErr })
+    await state.lastFilledField.press("Enter")
+    await page.waitForNavigation({ waitUntil: "networkidle", timeout: 30000 }).catch(() => {})
+    report("submitted", "Submitted login form with Enter key", { method: "enter" })
+  }
+
+  logger.debug("Waiting for login redirect to complete")
+  await page.waitForTimeout(5000)
+
+  const currentUrl = page.url()
+  report("redirected", `Current URL after login redirect: ${currentUrl}`, { url: currentUrl })
+}
@@ -0,0 +1,103 @@
+import type { BrowserContext, Page } from "playwright"
+import { describe, expect, it } from "vitest"
+import { runLoginFlow } from "@/lib/login-flow"
+import { GENERIC_RECIPE, getRecipeStages, resolveLoginRecipe, validateLoginRecipe } from "@/lib/login-recipes"
+import { parseTotpSecret } from "@/lib/totp"
+
+describe("validateLoginRecipe", () => {
+  it("accepts built-in recipe names and well-formed inline recipes", () => {
+    expect(validateLoginRecipe("leetcode")).toBeNull()
+    expect(
+      validateLoginRecipe({
+        name: "example",
+        selectors: { username: ["#user"] },
+        stages: [{ name: "login", when: "password", steps: [{ type: "fill", field: "username" }, { type: "submit" }] }],
+      }),
+    ).toBeNull()
+  })
+
+  it("rejects selectors that are not an object of arrays", () => {
+    expect(validateLoginRecipe({ name: "example", selectors: null })).toBe(
+      "recipe.selectors must be an object of selector arrays",
+    )
+    expect(validateLoginRecipe({ name: "example", selectors: ["#user"] })).toBe(
+      "recipe.selectors must be an object of selector arrays",
+    )
+    expect(validateLoginRecipe({ name: "example", selectors: { username: "#user" } })).toBe(
+      "recipe.selectors.username must be an array of selectors",
+    )
+  })
+
+  it("rejects stages and steps that are not objects", () => {
+    expect(validateLoginRecipe({ name: "example", stages: [null] })).toBe("recipe.stages[0] must be an object")
+    expect(validateLoginRecipe({ name: "example", stages: [["login"]] })).toBe("recipe.stages[0] must be an object")
+    expect(validateLoginRecipe({ name: "example", steps: [null] })).toBe("recipe.steps[0] must be an object")
+    expect(validateLoginRecipe({ name: "example", stages: [{ name: "login", steps: ["submit"] }] })).toBe(
+      "recipe.stages[0].steps[0] must be an object",
+    )
+  })
+
+  it("names unknown recipes and step types", () => {
+    expect(validateLoginRecipe("nope")).toBe("Unknown login recipe: nope")
+    expect(validateLoginRecipe({ name: "example", steps: [{ type: "dance" }] })).toBe(
+      "recipe.steps[0]: unknown step type: dance",
+    )
+  })
+})
+
+describe("getRecipeStages", () => {
+  it("follows a step-based recipe with the two-factor stage", () => {
+    const stages = getRecipeStages(resolveLoginRecipe("https://leetcode.com/problemset/"))
+
+    expect(stages.map((stage) => stage.name)).toEqual(["login", "two_factor"])
+    expect(stages[1]).toEqual({ name: "two_factor", when: "otp", steps: [{ type: "oneTimeCode" }] })
+  })
+
+  it("adds no second code stage when the steps already enter a code", () => {
+    const recipe = resolveLoginRecipe(undefined, {
+      name: "example",
+      hosts: [],
+      selectors: GENERIC_RECIPE.selectors,
+      steps: [
+        { type: "fill", field: "username" },
+        { type: "fill", field: "password" },
+        { type: "submit" },
+        { type: "totp" },
+      ],
+    })
+
+    expect(getRecipeStages(recipe).map((stage) => stage.name)).toEqual(["login"])
+  })
+})
+
+describe("runLoginFlow with the leetcode recipe", () => {
+  it("runs the one-time code step when the site asks for a code and totpSecret is set", async () => {
+    const request = { targetUrl: "https://leetcode.com/problemset/", totpSecret: "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ" }
+    const steps: string[] = []
+    // Every selector is visible, as on a page that shows the code prompt after the password
+    const page = {
+      $: async () => ({ isVisible: async () => true }),
+      url: () => "https://leetcode.com/accounts/login/",
+    }
+
+    const result = await runLoginFlow({
+      page: page as unknown as Page,
+      context: {} as BrowserContext,
+      recipe: resolveLoginRecipe(request.targetUrl),
+      credentials: { username: "alice", password: "secret" },
+      totp: parseTotpSecret(request.totpSecret),
+      // Records the steps instead of driving a browser
+      step: async (name) => {
+        steps.push(name)
+        return undefined as never
+      },
+      report: () => {},
+    })
+
+    expect(result.stages.map(({ name, status }) => ({ name, status }))).toEqual([
+      { name: "login", status: "completed" },
+      { name: "two_factor", status: "completed" },
+    ])
+    expect(steps).toContain("two_factor.enter_one_time_code")
+  })
+})
@@ -0,0 +1,372 @@
+// Declarative per-site login recipes
+
+import { type VerificationConfig, validateVerificationConfig } from "@/lib/login-verification"
+
+export type CredentialField = "username" | "password"
+
+export type RecipeStep =
+  | { type: "fill"; field: CredentialField; selectors?: string[] }
+  | { type: "click"; selectors: string[]; waitForNavigation?: boolean; optional?: boolean }
+  | { type: "submit"; selectors?: string[] }
+  | { type: "submitIdentifier"; selectors?: string[]; timeoutMs?: number }
+  | { type: "chooseAccount"; selectors?: string[] }
+  | { type: "totp"; selectors?: string[] }
+  | { type: "emailCode"; selectors?: string[] }
+  | { type: "oneTimeCode"; selectors?: string[] }
+  | { type: "waitForSelector"; selector: string; state?: "attached" | "visible" | "hidden"; timeoutMs?: number }
+  | { type: "waitForUrl"; url: string; timeoutMs?: number }
+
+export interface RecipeStage {
+  name: string
+  /**
+   * Only run this stage when one of these selectors is visible, or one from the named
+   * selector group of the recipe (e.g. "password"); otherwise it is skipped
+   */
+  when?: string[] | keyof RecipeSelectors
+  steps: RecipeStep[]
+}
+
+export interface RecipeSelectors {
+  username: string[]
+  password: string[]
+  submit: string[]
+  /** Buttons that advance an identifier-first form to the password screen */
+  next?: string[]
+  /** Account tiles on "choose an account" screens */
+  accountChooser?: string[]
+  /** Link that dismisses an account chooser in favour of the login form */
+  useAnotherAccount?: string[]
+  /** One-time code inputs on two-factor screens */
+  otp?: string[]
+}
+
+export interface LoginRecipe {
+  name: string
+  /** Hosts this recipe applies to; subdomains match too */
+  hosts: string[]
+  loginUrl?: string
+  selectors: RecipeSelectors
+  /** Single-screen flows can list steps directly; they run as one "login" stage */
+  steps?: RecipeStep[]
+  stages?: RecipeStage[]
+  /** Checks that prove the login worked; request-level `verify` checks take precedence */
+  success?: VerificationConfig
+}
+
+const GENERIC_USERNAME_SELECTORS = [
+  'input[name="username"]',
+  'input[name="email"]',
+  'input[name="login"]',
+  'input[name="user"]',
+  'input[type="email"]',
+  'input[id="username"]',
+  'input[id="email"]',
+  'input[id="login-email"]',
+  'input[id*="username"]',
+  'input[id*="email"]',
+  'input[id*="login"]',
+  'input[placeholder*="email" i]',
+  'input[placeholder*="username" i]',
+  'input[placeholder*="E-mail" i]',
+  'input[placeholder*="login" i]',
+  'input[autocomplete="username"]',
+  'input[autocomplete="email"]',
+  // Fallback: first visible text input
+  'form input[type="text"]:visible',
+  "form input:not([type]):visible",
+]
+
+const GENERIC_PASSWORD_SELECTORS = [
+  'input[name="password"]',
+  'input[type="password"]',
+  'input[id="password"]',
+  'input[name="pass"]',
+  'input[id*="password"]',
+  'input[autocomplete="current-password"]',
+]
+
+const GENERIC_SUBMIT_SELECTORS = [
+  'button[type="submit"]',
+  'input[type="submit"]',
+  'button:has-text("Log in")',
+  'button:has-text("Login")',
+  'button:has-text("Log In")',
+  'button:has-text("Sign in")',
+  'button:has-text("Sign In")',
+  'button:has-text("Submit")',
+  'button:has-text("Continue")',
+  'button[name*="login"]',
+  'button[id*="login"]',
+  '[role="button"]:has-text("Log in")',
+  '[role="button"]:has-text("Sign in")',
+  '[role="button"]:has-text("Sign In")',
+  'a[role="button"]:has-text("Login")',
+  'a:has-text("Login")',
+]
+
+const GENERIC_NEXT_SELECTORS = [
+  "#identifierNext button",
+  "#idSIButton9",
+  'button:has-text("Next")',
+  'button:has-text("Continue")',
+  '[role="button"]:has-text("Next")',
+  'button[type="submit"]',
+  'input[type="submit"]',
+]
+
+const GENERIC_ACCOUNT_CHOOSER_SELECTORS = ["[data-identifier]", "[data-email]", '#tilesHolder [role="button"]']
+
+const GENERIC_USE_ANOTHER_ACCOUNT_SELECTORS = [
+  "#otherTile",
+  ':is(button, a, li, [role="button"], [role="link"]):has-text("Use another account")',
+]
+
+const GENERIC_OTP_SELECTORS = [
+  'input[autocomplete="one-time-code"]',
+  'input[name="app_otp"]',
+  'input[name="totp"]',
+  'input[name*="otp" i]',
+  'input[id*="otp" i]',
+  'input[name="approvals_code"]',
+  'input[name="code"][inputmode="numeric"]',
+  'input[placeholder*="authentication code" i]',
+  'input[aria-label*="verification code" i]',
+]
+
+const DEFAULT_STEPS: RecipeStep[] = [
+  { type: "fill", field: "username" },
+  { type: "fill", field: "password" },
+  { type: "submit" },
+]
+
+const TWO_FACTOR_STAGE: RecipeStage = { name: "two_factor", when: "otp", steps: [{ type: "oneTimeCode" }] }
+
+const DEFAULT_STAGES: RecipeStage[] = [
+  { name: "account_chooser", when: "accountChooser", steps: [{ type: "chooseAccount" }] },
+  { name: "identifier", steps: [{ type: "fill", field: "username" }, { type: "submitIdentifier" }] },
+  { name: "password", when: "password", steps: [{ type: "fill", field: "password" }, { type: "submit" }] },
+  TWO_FACTOR_STAGE,
+]
+
+const CODE_STEP_TYPES: RecipeStep["type"][] = ["totp", "emailCode", "oneTimeCode"]
+
+const SELECTOR_GROUPS: (keyof RecipeSelectors)[] = [
+  "username",
+  "password",
+  "submit",
+  "next",
+  "accountChooser",
+  "useAnotherAccount",
+  "otp",
+]
+
+/**
+ * Fallback recipe built from generic login form heuristics
+ */
+export const GENERIC_RECIPE: LoginRecipe = {
+  name: "generic",
+  hosts: [],
+  selectors: {
+    username: GENERIC_USERNAME_SELECTORS,
+    password: GENERIC_PASSWORD_SELECTORS,
+    submit: GENERIC_SUBMIT_SELECTORS,
+    next: GENERIC_NEXT_SELECTORS,
+    accountChooser: GENERIC_ACCOUNT_CHOOSER_SELECTORS,
+    useAnotherAccount: GENERIC_USE_ANOTHER_ACCOUNT_SELECTORS,
+    otp: GENERIC_OTP_SELECTORS,
+  },
+  stages: DEFAULT_STAGES,
+}
+
+const BUILT_IN_RECIPES: LoginRecipe[] = [
+  {
+    name: "leetcode",
+    hosts: ["leetcode.com", "leetcode.cn"],
+    loginUrl: "https://leetcode.com/accounts/login/",
+    selectors: {
+      username: [
+        'input[data-cy="username"]',
+        'input[data-cy="sign-in-email-input"]',
+        'input[name="login"]',
+        "#id_login",
+        ...GENERIC_USERNAME_SELECTORS,
+      ],
+      password: [
+        'input[data-cy="password"]',
+        'input[data-cy="sign-in-password-input"]',
+        "#id_password",
+        ...GENERIC_PASSWORD_SELECTORS,
+      ],
+      submit: ['button[data-cy="sign-in-btn"]', "#signin_btn", ...GENERIC_SUBMIT_SELECTORS],
+    },
+    // LeetCode shows both fields on one screen
+    steps: DEFAULT_STEPS,
+    success: {
+      urlNotContains: "/accounts/login",
+      cookie: "LEETCODE_SESSION",
+    },
+  },
+]
+
+/**
+ * List the built-in recipes, including the generic fallback
+ * @returns Built-in recipes
+ */
+export function listLoginRecipes(): LoginRecipe[] {
+  return [...BUILT_IN_RECIPES, GENERIC_RECIPE]
+}
+
+/**
+ * Find the recipe for a request: explicit inline recipe, then by name, then by host, then generic
+ * @param url - Login or target URL used for host matching
+ * @param recipe - Optional recipe name or inline recipe from the request
+ * @returns The recipe to run
+ */
+export function resolveLoginRecipe(url: string | undefined, recipe?: string | LoginRecipe): LoginRecipe {
+  if (recipe && typeof recipe === "object") {
+    return {
+      ...recipe,
+      hosts: recipe.hosts ?? [],
+      selectors: { ...GENERIC_RECIPE.selectors, ...recipe.selectors },
+      stages: recipe.stages ?? (recipe.steps ? undefined : DEFAULT_STAGES),
+    }
+  }
+
+  if (typeof recipe === "string") {
+    const named = listLoginRecipes().find((r) => r.name === recipe)
+    if (!named) throw new Error(`Unknown login recipe: ${recipe}`)
+    return named
+  }
+
+  if (url) {
+    try {
+      const host = new URL(url).hostname.toLowerCase()
+      const match = BUILT_IN_RECIPES.find((r) => r.hosts.some((h) => host === h || host.endsWith(`.${h}`)))
+      if (match) return match
+    } catch {
+      // Invalid URLs are reported by request validation
+    }
+  }
+
+  return GENERIC_RECIPE
+}
+
+/**
+ * Stages to run for a recipe; a plain step list becomes a single "login" stage. Unless those steps enter a
+ * code themselves, the two-factor stage follows, and runs only when a code prompt shows up.
+ * @param recipe - Resolved recipe
+ * @returns Ordered stages
+ */
+export function getRecipeStages(recipe: LoginRecipe): RecipeStage[] {
+  if (recipe.stages) return recipe.stages
+  const steps = recipe.steps ?? DEFAULT_STEPS
+  const login: RecipeStage = { name: "login", steps }
+  return steps.some((step) => CODE_STEP_TYPES.includes(step.type)) ? [login] : [login, TWO_FACTOR_STAGE]
+}
+
+/**
+ * Validate a recipe name or inline recipe supplied in a request
+ * @param recipe - Recipe name or inline recipe
+ * @returns Error message, or null when the recipe is usable
+ */
+export function validateLoginRecipe(recipe: unknown): string | null {
+  if (typeof recipe === "string") {
+    return listLoginRecipes().some((r) => r.name === recipe) ? null : `Unknown login recipe: ${recipe}`
+  }
+
+  if (!recipe || typeof recipe !== "object") {
+    return "recipe must be a recipe name or a recipe object"
+  }
+
+  const { name, selectors, steps, stages, success } = recipe as Partial<LoginRecipe>
+  if (!name || typeof name !== "string") {
+    return "recipe.name is required"
+  }
+
+  if (selectors !== undefined) {
+    if (!isPlainObject(selectors)) {
+      return "recipe.selectors must be an object of selector arrays"
+    }
+    for (const [key, value] of Object.entries(selectors)) {
+      if (!Array.isArray(value) || value.some((s) => typeof s !== "string")) {
+        return `recipe.selectors.${key} must be an array of selectors`
+      }
+    }
+  }
+
+  if (success !== undefined) {
+    const error = validateVerificationConfig(success)
+    if (error) return error.replace(/^verify/, "recipe.success")
+  }
+
+  if (steps !== undefined && stages !== undefined) {
+    return "recipe must define either steps or stages, not both"
+  }
+
+  if (steps !== undefined) {
+    return validateRecipeSteps(steps, "recipe.steps")
+  }
+
+  if (stages !== undefined) {
+    if (!Array.isArray(stages) || stages.length === 0) {
+      return "recipe.stages must be a non-empty array"
+    }
+    for (const [index, stage] of stages.entries()) {
+      if (!isPlainObject(stage)) {
+        return `recipe.stages[${index}] must be an object`
+      }
+      if (typeof stage.name !== "string") {
+        return `recipe.stages[${index}].name is required`
+      }
+      if (
+        stage.when !== undefined &&
+        !SELECTOR_GROUPS.includes(stage.when as keyof RecipeSelectors) &&
+        (!Array.isArray(stage.when) || stage.when.some((s) => typeof s !== "string"))
+      ) {
+        return `recipe.stages[${index}].when must be an array of selectors or one of: ${SELECTOR_GROUPS.join(", ")}`
+      }
+      const error = validateRecipeSteps(stage.steps, `recipe.stages[${index}].steps`)
+      if (error) return error
+    }
+  }
+
+  return null
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value)
+}
+
+function validateRecipeSteps(steps: unknown, path: string): string | null {
+  if (!Array.isArray(steps) || steps.length === 0) {
+    return `${path} must be a non-empty array`
+  }
+  for (const [index, s] of steps.entries()) {
+    if (!isPlainObject(s)) return `${path}[${index}] must be an object`
+    const error = validateRecipeStep(s as RecipeStep)
+    if (error) return `${path}[${index}]: ${error}`
+  }
+  return null
+}
+
+function validateRecipeStep(step: RecipeStep): string | null {
+  switch (step?.type) {
+    case "fill":
+      return step.field === "username" || step.field === "password" ? null : 'field must be "username" or "password"'
+    case "click":
+      return Array.isArray(step.selectors) && step.selectors.length > 0 ? null : "click requires selectors"
+    case "submit":
+    case "submitIdentifier":
+    case "chooseAccount":
+    case "totp":
+    case "emailCode":
+    case "oneTimeCode":
+      return null
+    case "waitForSelector":
+      return typeof step.selector === "string" ? null : "waitForSelector requires selector"
+    case "waitForUrl":
+      return typeof step.url === "string" ? null : "waitForUrl requires url"
+    default:
+      return `unknown step type: ${(step as { type?: unknown })?.type}`
+  }
+}
@@ -0,0 +1,170 @@
+// Verifies that a login actually succeeded before cookies are shipped
+
+import type { BrowserContext, Page } from "playwright"
+import { assertUrlAllowed, validateUrl } from "@/lib/url-policy"
+
+export interface VerificationConfig {
+  /** The page must have left the login URL (origin + path). On by default unless login and target URL are the same page */
+  leftLoginPage?: boolean
+  /** The page URL must not contain this string */
+  urlNotContains?: string
+  /** The page URL must contain this string */
+  urlContains?: string
+  /** An element matching this selector must be present, e.g. the user avatar */
+  selector?: string
+  /** Cookies that must be set */
+  cookie?: string | string[]
+  /** An authenticated endpoint that must answer with the expected status (default 200) using the session */
+  probe?: { url: string; expectStatus?: number }
+}
+
+export interface VerificationCheck {
+  name: "left_login_page" | "url_not_contains" | "url_contains" | "selector" | "cookie" | "probe"
+  passed: boolean
+  detail: string
+}
+
+export interface VerificationResult {
+  verified: boolean
+  checks: VerificationCheck[]
+}
+
+/**
+ * Combine the recipe's success condition with per-request overrides
+ * @param recipeConfig - Success condition declared by the recipe
+ * @param requestConfig - Checks passed in the request, taking precedence
+ * @returns Effective verification configuration
+ */
+export function mergeVerificationConfig(
+  recipeConfig: VerificationConfig | undefined,
+  requestConfig: VerificationConfig | undefined,
+): VerificationConfig {
+  return { ...recipeConfig, ...requestConfig }
+}
+
+/**
+ * Validate verification checks supplied in a request or recipe
+ * @param config - Verification configuration
+ * @returns Error message, or null when the configuration is usable
+ */
+export function validateVerificationConfig(config: VerificationConfig): string | null {
+  if (!config || typeof config !== "object") {
+    return "verify must be an object"
+  }
+  if (config.probe) {
+    const urlError = validateUrl("verify.probe.url", config.probe.url, "login")
+    if (urlError) return urlError
+  }
+  if (config.cookie !== undefined && typeof config.cookie !== "string" && !Array.isArray(config.cookie)) {
+    return "verify.cookie must be a cookie name or a list of names"
+  }
+  return null
+}
+
+/**
+ * Run every configured check against the logged-in page
+ * @param page - Page after the login flow
+ * @param context - Browser context holding the session
+ * @param loginUrl - URL the login started from
+ * @param targetUrl - URL the session is for
+ * @param config - Checks to run
+ * @returns Whether all checks passed, with the outcome of each
+ */
+export async function verifyLogin(
+  page: Page,
+  context: BrowserContext,
+  loginUrl: string,
+  targetUrl: string,
+  config: VerificationConfig,
+): Promise<VerificationResult> {
+  const checks: VerificationCheck[] = []
+  const currentUrl = page.url()
+
+  const leftLoginPage = config.leftLoginPage ?? !isSamePage(loginUrl, targetUrl)
+  if (leftLoginPage) {
+    const passed = !isSamePage(currentUrl, loginUrl)
+    checks.push({
+      name: "left_login_page",
+      passed,
+      detail: passed ? `Left login page, now at ${currentUrl}` : `Still on login page ${currentUrl}`,
+    })
+  }
+
+  if (config.urlNotContains) {
+    const passed = !currentUrl.includes(config.urlNotContains)
+    checks.push({
+      name: "url_not_contains",
+      passed,
+      detail: `URL ${passed ? "does not contain" : "still contains"} "${config.urlNotContains}"`,
+    })
+  }
+
+  if (config.urlContains) {
+    const passed = currentUrl.includes(config.urlContains)
+    checks.push({
+      name: "url_contains",
+      passed,
+      detail: `URL ${passed ? "contains" : "does not contain"} "${config.urlContains}"`,
+    })
+  }
+
+  if (config.selector) {
+    const passed = !!(await page.$(config.selector).catch(() => null))
+    checks.push({
+      name: "selector",
+      passed,
+      detail: `Selector ${config.selector} ${passed ? "found" : "not found"}`,
+    })
+  }
+
+  if (config.cookie) {
+    const names = new Set((await context.cookies()).map((c) => c.name))
+    for (const name of Array.isArray(config.cookie) ? config.cookie : [config.cookie]) {
+      const passed = names.has(name)
+      checks.push({ name: "cookie", passed, detail: `Cookie ${name} ${passed ? "set" : "not set"}` })
+    }
+  }
+
+  if (config.probe) {
+    const expected = config.probe.expectStatus ?? 200
+    try {
+      await assertUrlAllowed(config.probe.url, "login")
+      const response = await context.request.get(config.probe.url, { maxRedirects: 0, timeout: 15000 })
+      const passed = response.status() === expected
+      checks.push({
+        name: "probe",
+        passed,
+        detail: `GET ${config.probe.url} returned ${response.status()} (expected ${expected})`,
+      })
+    } catch (err) {
+      checks.push({
+        name: "probe",
+        passed: false,
+        detail: `GET ${config.probe.url} failed: ${err instanceof Error ? err.message : String(err)}`,
+      })
+    }
+  }
+
+  // Nothing to go on: at least require the site to have set some cookie
+  if (checks.length === 0) {
+    const count = (await context.cookies()).length
+    checks.push({
+      name: "cookie",
+      passed: count > 0,
+      detail: `No checks configured; ${count} cookie${count === 1 ? "" : "s"} set`,
+    })
+  }
+
+  return { verified: checks.every((c) => c.passed), checks }
+}
+
+function isSamePage(a: string, b: string): boolean {
+  try {
+    const urlA = new URL(a)
+    const urlB = new URL(b)
+    const path = (u: URL) => u.pathname.replace(/\/+$/, "") || "/"
+    return urlA.origin === urlB.origin && path(urlA) === path(urlB)
+  } catch {
+    return a === b
+  }
+}
@@ -0,0 +1,245 @@
+import { mkdtemp, rm } from "fs/promises"
+import { createServer, type AddressInfo, type Server, type Socket } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+// The stub server listens on loopback, which the URL policy only allows for listed hosts; read when the policy loads
+vi.hoisted(() => {
+  process.env.PRIVATE_URL_HOSTS = "127.0.0.1"
+})
+
+import { readJsonFile } from "@/lib/data-store"
+import { extractEmailCode, waitForEmailCode, type EmailCodeConfig } from "@/lib/mailbox"
+
+interface StubMessage {
+  uid: number
+  receivedAt: Date
+  subject: string
+  messageId: string
+  body: string
+}
+
+/**
+ * Just enough of an IMAP4rev1 server for ImapFlow to log in, select a mailbox, search and fetch.
+ * Every search returns all messages, so the date cutoff and consumed bookkeeping are left to the connector.
+ */
+class StubImapServer {
+  messages: StubMessage[] = []
+  commands: string[] = []
+  /** Mailboxes SELECT answers NO for */
+  missingMailboxes = new Set<string>()
+  private server: Server = createServer((socket) => this.handle(socket))
+
+  async listen(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve))
+    return (this.server.address() as AddressInfo).port
+  }
+
+  async close() {
+    await new Promise((resolve) => this.server.close(resolve))
+  }
+
+  private handle(socket: Socket) {
+    socket.write("* OK IMAP4rev1 stub ready\r\n")
+    let buffered = ""
+    socket.on("data", (chunk) => {
+      buffered += chunk.toString("latin1")
+      let end: number
+      while ((end = buffered.indexOf("\r\n")) !== -1) {
+        const line = buffered.slice(0, end)
+        buffered = buffered.slice(end + 2)
+        this.respond(socket, line)
+      }
+    })
+  }
+
+  private respond(socket: Socket, line: string) {
+    const [tag, ...words] = line.split(" ")
+    const uid = words[0]?.toUpperCase() === "UID"
+    const command = (uid ? words[1] : words[0])?.toUpperCase()
+    const args = words.slice(uid ? 2 : 1)
+    this.commands.push(uid ? `UID ${command}` : command)
+    const ok = (text = "done") => socket.write(`${tag} OK ${text}\r\n`)
+
+    switch (command) {
+      case "CAPABILITY":
+        socket.write("* CAPABILITY IMAP4rev1\r\n")
+        return ok()
+      case "LIST":
+        socket.write('* LIST (\\Noselect) "/" ""\r\n')
+        return ok()
+      case "SELECT": {
+        const mailbox = args[0].replace(/"/g, "")
+        if (this.missingMailboxes.has(mailbox)) return socket.write(`${tag} NO Mailbox does not exist\r\n`)
+        socket.write(`* ${this.messages.length} EXISTS\r\n* OK [UIDVALIDITY 1] UIDs valid\r\n`)
+        return ok("[READ-WRITE] SELECT completed")
+      }
+      case "SEARCH":
+        socket.write(`* SEARCH ${this.messages.map((message) => message.uid).join(" ")}\r\n`)
+        return ok()
+      case "FETCH": {
+        const index = this.messages.findIndex((message) => String(message.uid) === args[0])
+        if (index !== -1) socket.write(fetchResponse(index + 1, this.messages[index]))
+        return ok()
+      }
+      case "LOGOUT":
+        socket.write("* BYE logging out\r\n")
+        ok()
+        return socket.end()
+      default:
+        return ok()
+    }
+  }
+}
+
+function fetchResponse(sequence: number, message: StubMessage) {
+  const source = [
+    "From: Example <noreply@example.com>",
+    "To: alice@example.com",
+    `Subject: ${message.subject}`,
+    `Message-ID: ${message.messageId}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.body,
+    "",
+  ].join("\r\n")
+  const address = '(("Example" NIL "noreply" "example.com"))'
+  const envelope = `("${message.receivedAt.toUTCString()}" "${message.subject}" ${address} ${address} ${address} (("Alice" NIL "alice" "example.com")) NIL NIL NIL "${message.messageId}")`
+  return (
+    `* ${sequence} FETCH (UID ${message.uid} INTERNALDATE "${internalDate(message.receivedAt)}" ` +
+    `ENVELOPE ${envelope} BODY[] {${Buffer.byteLength(source)}}\r\n${source})\r\n`
+  )
+}
+
+function internalDate(date: Date) {
+  const months = ["Jan", "Feb", "Mar", "Apr", "May", "Jun", "Jul", "Aug", "Sep", "Oct", "Nov", "Dec"]
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return (
+    `${pad(date.getUTCDate())}-${months[date.getUTCMonth()]}-${date.getUTCFullYear()} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} +0000`
+  )
+}
+
+describe("extractEmailCode", () => {
+  it("finds a six-digit code by default", () => {
+    expect(extractEmailCode("Your login code is 482913. It expires in 10 minutes.", {})).toEqual({ code: "482913" })
+  })
+
+  it("uses the first capture group of a custom code pattern", () => {
+    expect(extractEmailCode("Code: AB-1234 (ref 999999)", { codePattern: "Code: ([A-Z]{2}-\\d{4})" })).toEqual({
+      code: "AB-1234",
+    })
+  })
+
+  it("returns a magic link instead of a code when a link pattern is set", () => {
+    const text = "Sign in with https://example.com/magic?token=abc123 within 15 minutes. Code 123456"
+    expect(extractEmailCode(text, { linkPattern: "https://example\\.com/magic\\?token=\\w+" })).toEqual({
+      link: "https://example.com/magic?token=abc123",
+    })
+  })
+
+  it("returns undefined when the body has no match", () => {
+    expect(extractEmailCode("Welcome aboard!", {})).toBeUndefined()
+    expect(extractEmailCode("Code 123456", { linkPattern: "https://\\S+" })).toBeUndefined()
+  })
+})
+
+describe("waitForEmailCode", () => {
+  const server = new StubImapServer()
+  let config: EmailCodeConfig
+  let dataDir: string
+  const since = new Date()
+
+  beforeAll(async () => {
+    const port = await server.listen()
+    config = {
+      imap: { host: "127.0.0.1", port, secure: false, user: "alice@example.com", password: "secret" },
+      subject: "login code",
+      timeoutMs: 300,
+      pollIntervalMs: 50,
+    }
+  })
+
+  afterAll(() => server.close())
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "mailbox-test-"))
+    process.env.DATA_DIR = dataDir
+    server.commands = []
+    server.missingMailboxes.clear()
+    server.messages = [
+      {
+        uid: 1,
+        receivedAt: new Date(since.getTime() - 10 * 60 * 1000),
+        subject: "Your login code",
+        messageId: "<old@example.com>",
+        body: "Your code is 111111",
+      },
+      {
+        uid: 2,
+        receivedAt: new Date(since.getTime() + 1000),
+        subject: "Your login code",
+        messageId: "<first@example.com>",
+        body: "Your code is 222222",
+      },
+      {
+        uid: 3,
+        receivedAt: new Date(since.getTime() + 2000),
+        subject: "Your login code",
+        messageId: "<resent@example.com>",
+        body: "Your code is 333333",
+      },
+    ]
+  })
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  it("returns the newest code and records its message as consumed", async () => {
+    const match = await waitForEmailCode(config, since)
+
+    expect(match.code).toBe("333333")
+    expect(match.message).toMatchObject({ mailbox: "INBOX", uid: 3, messageId: "<resent@example.com>", kind: "code" })
+    const log = await readJsonFile<{ consumed: { key: string }[] }>("email-codes.json", { consumed: [] })
+    expect(log.consumed.map((entry) => entry.key)).toEqual(["alice@example.com:<resent@example.com>"])
+    expect(server.commands).toContain("LOGOUT")
+  })
+
+  it("never hands out a consumed code twice and ignores messages from before the run", async () => {
+    expect((await waitForEmailCode(config, since)).code).toBe("333333")
+    expect((await waitForEmailCode(config, since)).code).toBe("222222")
+    await expect(waitForEmailCode(config, since)).rejects.toThrow("No email with a login code arrived in INBOX")
+  })
+
+  it("polls until the timeout when no matching message arrives", async () => {
+    server.messages = []
+    const polls: number[] = []
+
+    await expect(waitForEmailCode(config, since, (attempt) => polls.push(attempt))).rejects.toThrow(
+      "No email with a login code arrived",
+    )
+    expect(polls.length).toBeGreaterThan(1)
+  })
+
+  it("refuses to connect to a private or link-local mailbox host", async () => {
+    await expect(
+      waitForEmailCode({ ...config, imap: { ...config.imap, host: "169.254.169.254" } }, since),
+    ).rejects.toThrow(
+      "Host 169.254.169.254 is not allowed: 169.254.169.254 is a private, loopback or link-local address",
+    )
+    await expect(waitForEmailCode({ ...config, imap: { ...config.imap, host: "localhost" } }, since)).rejects.toThrow(
+      "Host localhost is not allowed: localhost is a local address",
+    )
+    expect(server.commands).toEqual([])
+  })
+
+  it("logs out when the mailbox cannot be opened", async () => {
+    server.missingMailboxes.add("Codes")
+
+    await expect(waitForEmailCode({ ...config, imap: { ...config.imap, mailbox: "Codes" } }, since)).rejects.toThrow()
+    expect(server.commands).toContain("LOGOUT")
+  })
+})
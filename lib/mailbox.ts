@@ -0,0 +1,209 @@
+// IMAP mailbox connector for emailed one-time codes and magic links
+
+import { ImapFlow, type MailboxLockObject } from "imapflow"
+import { simpleParser } from "mailparser"
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+import { resolveEnvSecretRef } from "@/lib/secret-refs"
+import { assertHostAllowed } from "@/lib/url-policy"
+
+export interface ImapConfig {
+  host: string
+  /** Defaults to 993 when secure, 143 otherwise */
+  port?: number
+  /** Use implicit TLS; defaults to true. Plain connections still upgrade via STARTTLS when offered */
+  secure?: boolean
+  user: string
+  password?: string
+  /** Name of an IMAP_* environment variable holding the password */
+  passwordRef?: string
+  mailbox?: string
+}
+
+export interface EmailCodeConfig {
+  imap: ImapConfig
+  /** Only consider messages whose From contains this string */
+  from?: string
+  /** Only consider messages whose Subject contains this string */
+  subject?: string
+  /** Regex for the code; the first capture group (or whole match) is used. Default: 6 digits */
+  codePattern?: string
+  /** Regex for a magic link; when set the link is opened instead of entering a code */
+  linkPattern?: string
+  /** How long to wait for the message, default 120s */
+  timeoutMs?: number
+  /** How often to poll the mailbox, default 5s */
+  pollIntervalMs?: number
+}
+
+export interface ConsumedEmail {
+  mailbox: string
+  uid: number
+  messageId?: string
+  subject?: string
+  receivedAt: string
+  kind: "code" | "link"
+}
+
+export interface EmailCodeMatch {
+  code?: string
+  link?: string
+  message: ConsumedEmail
+}
+
+const CONSUMED_FILE = "email-codes.json"
+const MAX_CONSUMED = 500
+const DEFAULT_CODE_PATTERN = "\\b(\\d{6})\\b"
+const PASSWORD_REF_PREFIX = "IMAP_"
+// Tolerate small clock differences between this server and the mail server
+const CLOCK_SKEW_MS = 60 * 1000
+
+interface ConsumedLog {
+  consumed: { key: string; consumedAt: string }[]
+}
+
+/**
+ * Validate an email code configuration from a request
+ * @param config - Email code configuration
+ * @returns Error message, or null when the configuration is usable
+ */
+export function validateEmailCodeConfig(config: EmailCodeConfig): string | null {
+  if (!config?.imap?.host || !config.imap.user) {
+    return "emailCode.imap.host and emailCode.imap.user are required"
+  }
+  if (!config.imap.password && !config.imap.passwordRef) {
+    return "emailCode.imap.password or emailCode.imap.passwordRef is required"
+  }
+  try {
+    if (config.imap.passwordRef) resolveEnvSecretRef(config.imap.passwordRef, PASSWORD_REF_PREFIX)
+    new RegExp(config.codePattern ?? DEFAULT_CODE_PATTERN)
+    if (config.linkPattern) new RegExp(config.linkPattern)
+  } catch (err) {
+    return `emailCode: ${err instanceof Error ? err.message : String(err)}`
+  }
+  return null
+}
+
+/**
+ * Extract a code or magic link from a message body
+ * @param text - Plain-text message body
+ * @param config - Patterns to apply
+ * @returns The code or link, or undefined when the body has neither
+ */
+export function extractEmailCode(
+  text: string,
+  config: Pick<EmailCodeConfig, "codePattern" | "linkPattern">,
+): { code?: string; link?: string } | undefined {
+  if (config.linkPattern) {
+    const match = text.match(new RegExp(config.linkPattern))
+    return match ? { link: match[1] ?? match[0] } : undefined
+  }
+
+  const match = text.match(new RegExp(config.codePattern ?? DEFAULT_CODE_PATTERN))
+  return match ? { code: match[1] ?? match[0] } : undefined
+}
+
+/**
+ * Poll the mailbox until a new, unconsumed message with a code or link arrives.
+ * The message is recorded as consumed so later runs never reuse it.
+ * @param config - Mailbox and matching configuration
+ * @param since - Only messages received after this time are considered
+ * @param onPoll - Called after every unsuccessful poll
+ * @returns The extracted code or link and the message it came from
+ * @throws UrlPolicyError when the mailbox host is a local, private or link-local address
+ */
+export async function waitForEmailCode(
+  config: EmailCodeConfig,
+  since: Date,
+  onPoll?: (attempt: number) => void,
+): Promise<EmailCodeMatch> {
+  const { imap } = config
+  const mailbox = imap.mailbox ?? "INBOX"
+  const secure = imap.secure ?? true
+  // Checked again here, as the host may resolve differently than when the request was validated
+  await assertHostAllowed(imap.host)
+  const client = new ImapFlow({
+    host: imap.host,
+    port: imap.port ?? (secure ? 993 : 143),
+    secure,
+    auth: {
+      user: imap.user,
+      pass: imap.password ?? resolveEnvSecretRef(imap.passwordRef!, PASSWORD_REF_PREFIX),
+    },
+    logger: false,
+  })
+
+  // The connection is logged out even when opening the mailbox fails, e.g. for a wrong mailbox name
+  let lock: MailboxLockObject | undefined
+  try {
+    await client.connect()
+    lock = await client.getMailboxLock(mailbox)
+
+    const deadline = Date.now() + (config.timeoutMs ?? 120000)
+    const cutoff = since.getTime() - CLOCK_SKEW_MS
+
+    for (let attempt = 1; Date.now() < deadline; attempt++) {
+      const consumed = new Set(
+        (await readJsonFile<ConsumedLog>(CONSUMED_FILE, { consumed: [] })).consumed.map((c) => c.key),
+      )
+      const uids = await client.search(
+        {
+          since: new Date(cutoff),
+          ...(config.from && { from: config.from }),
+          ...(config.subject && { subject: config.subject }),
+        },
+        { uid: true },
+      )
+
+      // Newest first so a resent code wins over an older one
+      for (const uid of [...(uids || [])].sort((a, b) => b - a)) {
+        const message = await client.fetchOne(
+          String(uid),
+          { envelope: true, internalDate: true, source: true },
+          { uid: true },
+        )
+        if (!message || !message.source) continue
+
+        const receivedAt = new Date(message.internalDate ?? message.envelope?.date ?? 0)
+        const messageId = message.envelope?.messageId
+        const key = consumedKey(imap.user, mailbox, uid, messageId)
+        if (receivedAt.getTime() < cutoff || consumed.has(key)) continue
+
+        const parsed = await simpleParser(message.source)
+        const text = parsed.text || (typeof parsed.html === "string" ? parsed.html.replace(/<[^>]+>/g, " ") : "")
+        const extracted = extractEmailCode(text, config)
+        if (!extracted) continue
+
+        const consumedEmail: ConsumedEmail = {
+          mailbox,
+          uid,
+          messageId,
+          subject: message.envelope?.subject,
+          receivedAt: receivedAt.toISOString(),
+          kind: extracted.link ? "link" : "code",
+        }
+        await markConsumed(key)
+        return { ...extracted, message: consumedEmail }
+      }
+
+      onPoll?.(attempt)
+      await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs ?? 5000))
+      await client.noop()
+    }
+
+    throw new Error(`No email with a ${config.linkPattern ? "login link" : "login code"} arrived in ${mailbox}`)
+  } finally {
+    lock?.release()
+    await client.logout().catch(() => {})
+  }
+}
+
+function consumedKey(user: string, mailbox: string, uid: number, messageId?: string): string {
+  return `${user}:${messageId ?? `${mailbox}:${uid}`}`
+}
+
+async function markConsumed(key: string) {
+  await updateJsonFile<ConsumedLog>(CONSUMED_FILE, { consumed: [] }, (log) => {
+    log.consumed.push({ key, consumedAt: new Date().toISOString() })
+    log.consumed = log.consumed.slice(-MAX_CONSUMED)
+  })
+}
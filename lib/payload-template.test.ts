@@ -0,0 +1,108 @@
+import { describe, expect, it } from "vitest"
+import { renderPayloadTemplate, validatePayloadTemplate } from "@/lib/payload-template"
+
+const payload = {
+  account: "leetcode.com:alice",
+  cookieString: "LEETCODE_SESSION=abc; csrftoken=xyz",
+  extraction: { totalCookies: 2, methods: ["context", "setCookie"] },
+  cookies: [
+    { name: "LEETCODE_SESSION", value: "abc", domain: ".leetcode.com" },
+    { name: "csrftoken", value: "xyz", domain: "leetcode.com" },
+  ],
+  localStorage: [{ name: "theme", value: "dark" }],
+  authHeaders: [{ name: "Authorization", value: "Bearer token-123" }],
+}
+
+describe("validatePayloadTemplate", () => {
+  it("accepts known fields, nested paths and helpers anywhere in the template", () => {
+    expect(
+      validatePayloadTemplate({
+        user: "{{account}}",
+        count: "{{extraction.totalCookies}}",
+        headers: ['Cookie: {{cookie "LEETCODE_SESSION"}}', { auth: '{{ authHeader "authorization" }}' }],
+      }),
+    ).toBeNull()
+  })
+
+  it("names the placeholder that is not a known field or helper", () => {
+    expect(validatePayloadTemplate({ user: "{{password}}" })).toBe(
+      `template placeholder {{password}}: unknown field "password"; use one of: account, targetUrl, loginUrl, username, timestamp, extraction, criticalCookieNames, sessionTokens, cookies, localStorage, sessionStorage, authHeaders, cookieString, setCookieHeaders, export, extractionMethods, setCookieEvents, debugInfo`,
+    )
+    expect(validatePayloadTemplate(['{{header "X"}}'])).toBe(
+      'template placeholder {{header "X"}}: unknown helper "header"; use one of: cookie, localStorage, sessionStorage, authHeader',
+    )
+    expect(validatePayloadTemplate({ value: '{{cookie ""}}' })).toBe(
+      'template placeholder {{cookie ""}}: cookie needs a name, e.g. {{cookie "NAME"}}',
+    )
+    expect(validatePayloadTemplate({ value: "{{cookies[0]}}" })).toMatch(
+      /expected a field such as \{\{cookieString\}\}/,
+    )
+  })
+
+  it("rejects templates that are not objects or arrays", () => {
+    expect(validatePayloadTemplate("{{cookieString}}")).toBe("template must be a JSON object or array")
+    expect(validatePayloadTemplate(null)).toBe("template must be a JSON object or array")
+  })
+})
+
+describe("renderPayloadTemplate", () => {
+  it("keeps the value of a whole-string placeholder as is and interpolates the rest", () => {
+    expect(
+      renderPayloadTemplate(
+        {
+          extraction: "{{extraction}}",
+          count: "{{extraction.totalCookies}}",
+          summary: "{{account}} has {{extraction.totalCookies}} cookies from {{extraction.methods}}",
+          untouched: [true, 3, null],
+        },
+        payload,
+      ),
+    ).toEqual({
+      extraction: { totalCookies: 2, methods: ["context", "setCookie"] },
+      count: 2,
+      summary: 'leetcode.com:alice has 2 cookies from ["context","setCookie"]',
+      untouched: [true, 3, null],
+    })
+  })
+
+  it("looks up named values with the helpers, matching auth headers case-insensitively", () => {
+    expect(
+      renderPayloadTemplate(
+        {
+          session: '{{cookie "LEETCODE_SESSION"}}',
+          theme: '{{localStorage "theme"}}',
+          auth: '{{authHeader "authorization"}}',
+        },
+        payload,
+      ),
+    ).toEqual({ session: "abc", theme: "dark", auth: "Bearer token-123" })
+  })
+
+  it("renders values that do not exist as null, or as an empty string inside longer strings", () => {
+    expect(
+      renderPayloadTemplate(
+        {
+          missing: "{{extraction.missing.deeper}}",
+          missingCookie: '{{cookie "nope"}}',
+          noStorage: '{{sessionStorage "theme"}}',
+          inline: "before {{targetUrl}} after",
+        },
+        payload,
+      ),
+    ).toEqual({ missing: null, missingCookie: null, noStorage: null, inline: "before  after" })
+  })
+
+  it("only follows the payload's own fields", () => {
+    expect(
+      renderPayloadTemplate({ ctor: "{{extraction.constructor}}", proto: "x{{cookies.__proto__}}" }, payload),
+    ).toEqual({ ctor: null, proto: "x" })
+  })
+
+  it("inserts interpolated values as plain text that stays valid when the body is serialized", () => {
+    const tricky = { ...payload, account: 'alice "admin"\n{{cookieString}}\\' }
+    const rendered = renderPayloadTemplate({ text: "user={{account}}" }, tricky)
+
+    expect(rendered).toEqual({ text: 'user=alice "admin"\n{{cookieString}}\\' })
+    expect(JSON.parse(JSON.stringify(rendered))).toEqual(rendered)
+  })
+})
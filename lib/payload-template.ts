@@ -0,0 +1,151 @@
+// Payload templates so each sink receives only the fields it needs, in the shape it expects
+
+export type PayloadTemplate = Record<string, unknown> | unknown[]
+
+/** Top-level payload fields a placeholder may start with, e.g. {{extraction.totalCookies}} */
+export const TEMPLATE_VARIABLES = [
+  "account",
+  "targetUrl",
+  "loginUrl",
+  "username",
+  "timestamp",
+  "extraction",
+  "criticalCookieNames",
+  "sessionTokens",
+  "cookies",
+  "localStorage",
+  "sessionStorage",
+  "authHeaders",
+  "cookieString",
+  "setCookieHeaders",
+  "export",
+  "extractionMethods",
+  "setCookieEvents",
+  "debugInfo",
+]
+
+/** Helpers that look up one named value, e.g. {{cookie "LEETCODE_SESSION"}} */
+export const TEMPLATE_HELPERS = ["cookie", "localStorage", "sessionStorage", "authHeader"]
+
+type Placeholder = { kind: "path"; path: string[] } | { kind: "helper"; helper: string; name: string }
+
+const PLACEHOLDER_PATTERN = /\{\{(.*?)\}\}/g
+// One placeholder and nothing else: "{{a}} and {{b}}" also starts with {{ and ends with }}
+const WHOLE_PLACEHOLDER_PATTERN = /^\{\{((?:(?!\}\}).)*)\}\}$/
+const PATH_PATTERN = /^[A-Za-z_$][\w$]*(\.[\w$]+)*$/
+const HELPER_PATTERN = /^(\w+)\s+"([^"]*)"$/
+
+/**
+ * Validate a template when a sink is configured, so mistakes surface before a login runs
+ * @param template - JSON object or array whose strings may contain {{placeholders}}
+ * @returns Error message, or null when every placeholder is known
+ */
+export function validatePayloadTemplate(template: unknown): string | null {
+  if (!template || typeof template !== "object") {
+    return "template must be a JSON object or array"
+  }
+
+  for (const text of collectStrings(template)) {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+      const placeholder = parsePlaceholder(match[1])
+      if (typeof placeholder === "string") return `template placeholder ${match[0]}: ${placeholder}`
+    }
+  }
+  return null
+}
+
+/**
+ * Render a validated template against a run's payload. A string that is exactly one placeholder
+ * takes the value as is (objects, arrays, numbers); placeholders inside longer strings are interpolated.
+ * Values that do not exist render as null, or as an empty string inside longer strings.
+ * @param template - Validated template
+ * @param payload - Full run payload
+ * @returns The body to deliver
+ */
+export function renderPayloadTemplate(template: PayloadTemplate, payload: Record<string, unknown>): unknown {
+  return renderValue(template, payload)
+}
+
+function renderValue(value: unknown, payload: Record<string, unknown>): unknown {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_PLACEHOLDER_PATTERN)
+    if (whole) return resolvePlaceholder(whole[1], payload) ?? null
+
+    return value.replace(PLACEHOLDER_PATTERN, (_match, expression: string) => {
+      const resolved = resolvePlaceholder(expression, payload)
+      if (resolved === undefined || resolved === null) return ""
+      return typeof resolved === "object" ? JSON.stringify(resolved) : String(resolved)
+    })
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => renderValue(item, payload))
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, payload)]))
+  }
+  return value
+}
+
+function resolvePlaceholder(expression: string, payload: Record<string, unknown>): unknown {
+  const placeholder = parsePlaceholder(expression)
+  if (typeof placeholder === "string") return undefined
+
+  if (placeholder.kind === "path") {
+    return placeholder.path.reduce<unknown>(
+      (current, key) =>
+        current && typeof current === "object" && Object.hasOwn(current, key)
+          ? (current as Record<string, unknown>)[key]
+          : undefined,
+      payload,
+    )
+  }
+
+  const { helper, name } = placeholder
+  switch (helper) {
+    case "cookie":
+      return findByName(payload.cookies, name)?.value
+    case "localStorage":
+    case "sessionStorage":
+      return findByName(payload[helper], name)?.value
+    case "authHeader":
+      return findByName(payload.authHeaders, name.toLowerCase(), (entry) => entry.name.toLowerCase())?.value
+  }
+}
+
+function parsePlaceholder(expression: string): Placeholder | string {
+  const trimmed = expression.trim()
+
+  const helper = trimmed.match(HELPER_PATTERN)
+  if (helper) {
+    if (!TEMPLATE_HELPERS.includes(helper[1])) {
+      return `unknown helper "${helper[1]}"; use one of: ${TEMPLATE_HELPERS.join(", ")}`
+    }
+    if (!helper[2]) return `${helper[1]} needs a name, e.g. {{${helper[1]} "NAME"}}`
+    return { kind: "helper", helper: helper[1], name: helper[2] }
+  }
+
+  if (!PATH_PATTERN.test(trimmed)) {
+    return 'expected a field such as {{cookieString}} or a helper such as {{cookie "NAME"}}'
+  }
+  const path = trimmed.split(".")
+  if (!TEMPLATE_VARIABLES.includes(path[0])) {
+    return `unknown field "${path[0]}"; use one of: ${TEMPLATE_VARIABLES.join(", ")}`
+  }
+  return { kind: "path", path }
+}
+
+function findByName(
+  list: unknown,
+  name: string,
+  nameOf: (entry: { name: string }) => string = (entry) => entry.name,
+): { name: string; value?: unknown } | undefined {
+  if (!Array.isArray(list)) return undefined
+  return list.find((entry) => entry && typeof entry.name === "string" && nameOf(entry) === name)
+}
+
+function collectStrings(value: unknown): string[] {
+  if (typeof value === "string") return [value]
+  if (Array.isArray(value)) return value.flatMap(collectStrings)
+  if (value && typeof value === "object") return Object.values(value).flatMap(collectStrings)
+  return []
+}
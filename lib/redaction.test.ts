@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest"
+import { extractSessionTokens } from "@/lib/cookie-extractor"
+import { sessionTokenSummaries } from "@/lib/login-automation"
+import { redactPayload, resolveRedaction, type RedactionMode } from "@/lib/redaction"
+
+// Over 100 characters, like LEETCODE_SESSION, so it is listed as a session token
+const SESSION_VALUE = `eyJ${"a".repeat(150)}`
+
+function resultWithSessionToken() {
+  const cookies = [
+    {
+      name: "LEETCODE_SESSION",
+      value: SESSION_VALUE,
+      domain: ".leetcode.com",
+      path: "/",
+      httpOnly: true,
+      secure: true,
+    },
+    { name: "csrftoken", value: "csrf-value-123", domain: "leetcode.com", path: "/", httpOnly: false, secure: true },
+  ]
+  return {
+    status: "success" as const,
+    sessionTokens: sessionTokenSummaries(extractSessionTokens(cookies as Parameters<typeof extractSessionTokens>[0])),
+    cookies,
+  }
+}
+
+describe("redactPayload on a job result", () => {
+  it("masks session tokens by default and cuts the preview from the masked value", () => {
+    const redacted = redactPayload(resultWithSessionToken(), resolveRedaction("response"))
+
+    expect(redacted.sessionTokens).toEqual([
+      { name: "LEETCODE_SESSION", length: 153, value: "eyJa****", preview: "eyJa****", fullLength: 153 },
+    ])
+    expect(JSON.stringify(redacted)).not.toContain("a".repeat(20))
+  })
+
+  it("never shows more of a token in its preview than in its value", () => {
+    for (const mode of ["masked", "hashed"] as RedactionMode[]) {
+      const [token] = redactPayload(
+        resultWithSessionToken(),
+        resolveRedaction("response", { default: mode }),
+      ).sessionTokens
+      expect(token.preview).toBe(token.value)
+      expect(token.value).not.toBe(SESSION_VALUE)
+    }
+  })
+
+  it("shows the first 50 characters as the preview when values are shown in full", () => {
+    const [token] = redactPayload(
+      resultWithSessionToken(),
+      resolveRedaction("response", { default: "full" }),
+    ).sessionTokens
+
+    expect(token.value).toBe(SESSION_VALUE)
+    expect(token.preview).toBe(`${SESSION_VALUE.slice(0, 50)}...`)
+  })
+
+  it("removes session tokens when they are omitted", () => {
+    const redacted = redactPayload(
+      resultWithSessionToken(),
+      resolveRedaction("response", { fields: { sessionTokens: "omitted" } }),
+    )
+
+    expect(redacted).not.toHaveProperty("sessionTokens")
+  })
+})
@@ -0,0 +1,222 @@
+// Redaction of cookie, token and storage values in API responses, sink payloads and logs
+
+import { createHash } from "crypto"
+import { logger } from "@/lib/logger"
+
+export type RedactionMode = "full" | "masked" | "hashed" | "omitted"
+
+export const REDACTION_MODES: RedactionMode[] = ["full", "masked", "hashed", "omitted"]
+
+/** Top-level result and payload fields that carry secret values */
+export const REDACTABLE_FIELDS = [
+  "cookies",
+  "sessionTokens",
+  "cookieString",
+  "setCookieHeaders",
+  "localStorage",
+  "sessionStorage",
+  "authHeaders",
+  "setCookieEvents",
+  "export",
+] as const
+
+export type RedactableField = (typeof REDACTABLE_FIELDS)[number]
+
+export interface RedactionPolicy {
+  /** Mode for fields not listed in fields */
+  default?: RedactionMode
+  fields?: Partial<Record<RedactableField, RedactionMode>>
+}
+
+/** Where values end up: the HTTP API (job results, events, exports), sinks, or server logs */
+export type RedactionDestination = "response" | "sinks" | "logs"
+
+/** Mode of every redactable field, after defaults and overrides are applied */
+export type ResolvedRedaction = Record<RedactableField, RedactionMode>
+
+const BUILT_IN_DEFAULTS: Record<RedactionDestination, RedactionMode> = {
+  response: "masked",
+  sinks: "full",
+  logs: "omitted",
+}
+
+const serverPolicies = loadServerPolicies()
+
+/**
+ * Validate a redaction policy from a request
+ * @param policy - Policy to check
+ * @param path - Where the policy sits in the request, for error messages
+ * @returns Error message, or null when the policy is usable
+ */
+export function validateRedactionPolicy(policy: unknown, path = "redaction"): string | null {
+  if (!policy || typeof policy !== "object") {
+    return `${path} must be an object`
+  }
+
+  const { default: defaultMode, fields } = policy as RedactionPolicy
+  if (defaultMode !== undefined && !REDACTION_MODES.includes(defaultMode)) {
+    return `${path}.default must be one of: ${REDACTION_MODES.join(", ")}`
+  }
+  if (fields !== undefined) {
+    if (!fields || typeof fields !== "object") {
+      return `${path}.fields must be an object`
+    }
+    for (const [field, mode] of Object.entries(fields)) {
+      if (!REDACTABLE_FIELDS.includes(field as RedactableField)) {
+        return `${path}.fields.${field} is not redactable; use one of: ${REDACTABLE_FIELDS.join(", ")}`
+      }
+      if (!REDACTION_MODES.includes(mode as RedactionMode)) {
+        return `${path}.fields.${field} must be one of: ${REDACTION_MODES.join(", ")}`
+      }
+    }
+  }
+  return null
+}
+
+/**
+ * Mode of every field for a destination: the built-in default, then REDACTION_POLICY, then the request's override
+ * @param destination - Where the values are going
+ * @param override - Policy from the request or sink
+ * @returns Mode per field
+ */
+export function resolveRedaction(destination: RedactionDestination, override?: RedactionPolicy): ResolvedRedaction {
+  const server = serverPolicies[destination]
+  const defaultMode = override?.default ?? server?.default ?? BUILT_IN_DEFAULTS[destination]
+  // A request's default replaces the server's per-field modes too, so "default: full" means full everywhere
+  const fields = { ...(override?.default ? {} : server?.fields), ...override?.fields }
+
+  return Object.fromEntries(
+    REDACTABLE_FIELDS.map((field) => [field, fields[field] ?? defaultMode]),
+  ) as ResolvedRedaction
+}
+
+/**
+ * Copy a result or payload with each redactable field redacted per its mode
+ * @param payload - Result or payload object
+ * @param redaction - Mode per field
+ * @returns The redacted copy; omitted fields are removed
+ */
+export function redactPayload<T extends object>(payload: T, redaction: ResolvedRedaction): T {
+  const redacted = { ...payload } as Record<string, unknown>
+
+  for (const field of REDACTABLE_FIELDS) {
+    const mode = redaction[field]
+    const value = redacted[field]
+    if (mode === "full" || value === undefined || value === null) continue
+    if (mode === "omitted") {
+      delete redacted[field]
+      continue
+    }
+
+    switch (field) {
+      case "cookies":
+      case "localStorage":
+      case "sessionStorage":
+      case "authHeaders":
+        redacted[field] = (value as { value: string }[]).map((entry) => ({
+          ...entry,
+          value: redactValue(entry.value, mode),
+        }))
+        break
+      case "sessionTokens":
+        // The preview is cut from the redacted value, so it never shows more than the value itself
+        redacted[field] = (value as { value: string; preview?: string }[]).map((entry) => {
+          const redactedValue = redactValue(entry.value, mode)
+          return {
+            ...entry,
+            value: redactedValue,
+            ...(entry.preview !== undefined && { preview: tokenPreview(redactedValue) }),
+          }
+        })
+        break
+      case "setCookieEvents":
+        redacted[field] = (value as { cookie: { value: string } }[]).map((event) => ({
+          ...event,
+          cookie: { ...event.cookie, value: redactValue(event.cookie.value, mode) },
+        }))
+        break
+      case "cookieString":
+        redacted[field] = redactCookiePairs(value as string, mode)
+        break
+      case "setCookieHeaders":
+        redacted[field] = (value as string[]).map((header) => {
+          const [pair, ...attributes] = header.split("; ")
+          return [redactCookiePairs(pair, mode), ...attributes].join("; ")
+        })
+        break
+      case "export":
+        redacted[field] = {
+          ...(value as { content: string }),
+          content: redactValue((value as { content: string }).content, mode),
+        }
+        break
+    }
+  }
+
+  return redacted as T
+}
+
+/**
+ * Redact a single secret value
+ * @param value - Secret value
+ * @param mode - "masked" keeps the first four characters, "hashed" gives a SHA-256 prefix
+ * @returns The redacted value
+ */
+export function redactValue(value: string, mode: Exclude<RedactionMode, "omitted">): string {
+  if (mode === "full") return value
+  if (mode === "hashed") return `sha256:${createHash("sha256").update(value).digest("hex").slice(0, 16)}`
+  return value.length > 8 ? `${value.slice(0, 4)}****` : "****"
+}
+
+/**
+ * Short preview of a session token for the API response
+ * @param value - Token value, already redacted for the response
+ * @returns The first 50 characters, with "..." when the value is longer
+ */
+export function tokenPreview(value: string): string {
+  return value.length > 50 ? `${value.substring(0, 50)}...` : value
+}
+
+/**
+ * Describe a secret for a log line per the log policy of its field
+ * @param field - Field the value belongs to
+ * @param name - Cookie, token or header name
+ * @param value - Secret value
+ * @returns Log text, or null when the field is omitted from logs
+ */
+export function describeSecretForLog(field: RedactableField, name: string, value: string): string | null {
+  const mode = resolveRedaction("logs")[field]
+  if (mode === "omitted") return null
+  return `${name}: ${redactValue(value, mode)} (${value.length} characters)`
+}
+
+function redactCookiePairs(text: string, mode: Exclude<RedactionMode, "omitted">): string {
+  if (!text) return text
+  return text
+    .split("; ")
+    .map((pair) => {
+      const index = pair.indexOf("=")
+      return index < 0 ? pair : `${pair.slice(0, index + 1)}${redactValue(pair.slice(index + 1), mode)}`
+    })
+    .join("; ")
+}
+
+function loadServerPolicies(): Partial<Record<RedactionDestination, RedactionPolicy>> {
+  const source = process.env.REDACTION_POLICY
+  if (!source) return {}
+
+  try {
+    const policies = JSON.parse(source) as Partial<Record<RedactionDestination, RedactionPolicy>>
+    for (const destination of Object.keys(policies)) {
+      if (!(destination in BUILT_IN_DEFAULTS)) throw new Error(`unknown destination "${destination}"`)
+      const error = validateRedactionPolicy(policies[destination as RedactionDestination], destination)
+      if (error) throw new Error(error)
+    }
+    return policies
+  } catch (err) {
+    logger.error(
+      `Ignoring invalid REDACTION_POLICY, using the built-in defaults: ${err instanceof Error ? err.message : err}`,
+    )
+    return {}
+  }
+}
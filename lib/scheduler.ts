@@ -0,0 +1,294 @@
+// In-process cron scheduler for recurring login jobs
+
+import { randomUUID } from "crypto"
+import { CronExpressionParser } from "cron-parser"
+import { scheduleActor, SESSION_REFRESH_ACTOR, type AuditActor } from "@/lib/audit"
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+import { enqueueLoginJob, getJob, type JobState } from "@/lib/job-queue"
+import { logger } from "@/lib/logger"
+import { hasInlineSecrets, validateLoginRequest, type LoginRequest } from "@/lib/login-automation"
+import { claimDueRefreshes, recordRefreshJob } from "@/lib/session-store"
+import { deliverDueWebhooks } from "@/lib/webhook-outbox"
+
+export interface Schedule {
+  id: string
+  name: string
+  /** Five-field cron expression, e.g. "0 7 * * *" */
+  cron: string
+  /** IANA time zone the cron expression is evaluated in, default UTC */
+  timezone?: string
+  /** Delay each run by a random 0..jitterSeconds to avoid hitting sites on the minute */
+  jitterSeconds?: number
+  /** Run once after a restart when a run was missed while the service was down; default true */
+  catchUp?: boolean
+  enabled: boolean
+  request: LoginRequest
+  createdAt: string
+  updatedAt: string
+  nextRunAt?: string
+  lastRunAt?: string
+  lastJobId?: string
+  /** Why the last due run did not start a job, e.g. a skipped missed run */
+  lastSkipReason?: string
+}
+
+export type ScheduleInput = Pick<Schedule, "name" | "cron" | "request"> &
+  Partial<Pick<Schedule, "timezone" | "jitterSeconds" | "catchUp" | "enabled">>
+
+export interface ScheduleView extends Schedule {
+  /** State of the last job while it is still held by the job queue */
+  lastJobState?: JobState
+}
+
+type ScheduleFile = Record<string, Schedule>
+
+const log = logger.child({ component: "scheduler" })
+
+const SCHEDULES_FILE = "schedules.json"
+const TICK_INTERVAL_MS = 30 * 1000
+// Due runs later than this count as missed (the service was down) rather than just late
+const MISSED_RUN_GRACE_MS = 2 * 60 * 1000
+const MAX_JITTER_SECONDS = 60 * 60
+const SCHEDULE_FIELDS = ["name", "cron", "timezone", "jitterSeconds", "catchUp", "enabled", "request"]
+
+// Kept on globalThis so dev reloads do not start a second timer
+const globalForScheduler = globalThis as unknown as { __loginScheduler?: { timer: NodeJS.Timeout } }
+
+/**
+ * Validate a schedule before it is stored
+ * @param input - Schedule fields from a request
+ * @param partial - Allow leaving out fields, for updates
+ * @returns Error message, or null when the schedule is usable
+ */
+export function validateScheduleInput(input: Partial<ScheduleInput>, partial = false): string | null {
+  if (!input || typeof input !== "object") {
+    return "Request body must be a schedule object"
+  }
+  if (!partial && (!input.name || !input.cron || !input.request)) {
+    return "name, cron and request are required"
+  }
+
+  if (input.cron !== undefined && (typeof input.cron !== "string" || input.cron.trim().split(/\s+/).length !== 5)) {
+    return 'cron must be a five-field expression such as "0 7 * * *"'
+  }
+  if (input.cron !== undefined || input.timezone !== undefined) {
+    try {
+      nextCronTime(input.cron ?? "* * * * *", input.timezone, new Date())
+    } catch (err) {
+      return `Invalid cron expression or timezone: ${err instanceof Error ? err.message : String(err)}`
+    }
+  }
+
+  if (
+    input.jitterSeconds !== undefined &&
+    (!Number.isInteger(input.jitterSeconds) || input.jitterSeconds < 0 || input.jitterSeconds > MAX_JITTER_SECONDS)
+  ) {
+    return `jitterSeconds must be a whole number between 0 and ${MAX_JITTER_SECONDS}`
+  }
+
+  if (input.request !== undefined) {
+    const { request } = input
+    // Schedules are returned by the API, so they must not carry secrets
+    if (hasInlineSecrets(request)) {
+      return "Scheduled requests must use credentialId, totpSecretRef and emailCode.imap.passwordRef instead of secrets"
+    }
+    const requestError = validateLoginRequest(request)
+    if (requestError) return `Invalid request: ${requestError}`
+  }
+
+  return null
+}
+
+/**
+ * List all schedules with the state of their last job
+ * @returns Schedules, oldest first
+ */
+export async function listSchedules(): Promise<ScheduleView[]> {
+  const schedules = await readJsonFile<ScheduleFile>(SCHEDULES_FILE, {})
+  return Object.values(schedules).map(toView)
+}
+
+/**
+ * Look up a schedule
+ * @param id - Schedule ID
+ * @returns The schedule, or null when no such schedule exists
+ */
+export async function getSchedule(id: string): Promise<ScheduleView | null> {
+  const schedules = await readJsonFile<ScheduleFile>(SCHEDULES_FILE, {})
+  // Own entries only, so IDs like "constructor" do not find Object.prototype members
+  return Object.hasOwn(schedules, id) ? toView(schedules[id]) : null
+}
+
+/**
+ * Store a new schedule and plan its first run
+ * @param input - Validated schedule fields
+ * @returns The stored schedule
+ */
+export async function createSchedule(input: ScheduleInput): Promise<ScheduleView> {
+  const now = new Date()
+  const schedule: Schedule = {
+    id: randomUUID(),
+    name: input.name,
+    cron: input.cron,
+    timezone: input.timezone,
+    jitterSeconds: input.jitterSeconds,
+    catchUp: input.catchUp,
+    enabled: input.enabled ?? true,
+    request: input.request,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  }
+  schedule.nextRunAt = schedule.enabled ? planNextRun(schedule, now) : undefined
+
+  await updateJsonFile<ScheduleFile>(SCHEDULES_FILE, {}, (schedules) => {
+    schedules[schedule.id] = schedule
+  })
+  return toView(schedule)
+}
+
+/**
+ * Change a schedule; the next run is replanned when its timing or enabled flag changes
+ * @param id - Schedule ID
+ * @param input - Validated fields to change
+ * @returns The updated schedule, or null when no such schedule exists
+ */
+export async function updateSchedule(id: string, input: Partial<ScheduleInput>): Promise<ScheduleView | null> {
+  let updated: Schedule | undefined
+
+  await updateJsonFile<ScheduleFile>(SCHEDULES_FILE, {}, (schedules) => {
+    const current = Object.hasOwn(schedules, id) ? schedules[id] : undefined
+    if (!current) return
+
+    const now = new Date()
+    const changes = Object.fromEntries(Object.entries(input).filter(([key]) => SCHEDULE_FIELDS.includes(key)))
+    updated = { ...current, ...changes, updatedAt: now.toISOString() }
+    const timingChanged = ["cron", "timezone", "jitterSeconds", "enabled"].some((key) => key in changes)
+    if (!updated.enabled) {
+      updated.nextRunAt = undefined
+    } else if (timingChanged || !updated.nextRunAt) {
+      updated.nextRunAt = planNextRun(updated, now)
+    }
+    schedules[id] = updated
+  })
+
+  return updated ? toView(updated) : null
+}
+
+/**
+ * Remove a schedule
+ * @param id - Schedule ID
+ * @returns Whether a schedule was removed
+ */
+export async function deleteSchedule(id: string): Promise<boolean> {
+  let deleted = false
+  await updateJsonFile<ScheduleFile>(SCHEDULES_FILE, {}, (schedules) => {
+    deleted = Object.hasOwn(schedules, id)
+    delete schedules[id]
+  })
+  return deleted
+}
+
+/**
+ * Queue a schedule's login job now, outside its cron timing
+ * @param id - Schedule ID
+ * @returns The updated schedule, or null when no such schedule exists
+ */
+export async function runScheduleNow(id: string, actor: AuditActor): Promise<ScheduleView | null> {
+  let ran: Schedule | undefined
+  await updateJsonFile<ScheduleFile>(SCHEDULES_FILE, {}, (schedules) => {
+    const schedule = Object.hasOwn(schedules, id) ? schedules[id] : undefined
+    if (!schedule) return
+    startRun(schedule, new Date(), actor)
+    ran = schedule
+  })
+  return ran ? toView(ran) : null
+}
+
+/**
+ * Start the scheduler timer once per process. Due and missed runs are handled on the first tick,
+ * and every tick also queues re-logins for sessions whose critical cookies are about to expire
+ * and retries webhook deliveries whose backoff has elapsed.
+ */
+export function startScheduler() {
+  if (globalForScheduler.__loginScheduler) return
+
+  log.info("Starting login scheduler")
+  const timer = setInterval(tick, TICK_INTERVAL_MS)
+  timer.unref()
+  globalForScheduler.__loginScheduler = { timer }
+
+  tick()
+}
+
+function tick() {
+  runDueSchedules()
+    .then(refreshExpiringSessions)
+    .then(() => deliverDueWebhooks())
+    .catch((error) => log.error("Scheduler tick failed", { error }))
+}
+
+async function refreshExpiringSessions() {
+  for (const { account, request } of await claimDueRefreshes()) {
+    const job = enqueueLoginJob(request, SESSION_REFRESH_ACTOR)
+    log.info(`Refreshing session ${account} ahead of cookie expiry`, { account, jobId: job.id })
+    await recordRefreshJob(account, job.id)
+  }
+}
+
+async function runDueSchedules() {
+  await updateJsonFile<ScheduleFile>(SCHEDULES_FILE, {}, (schedules) => {
+    const now = new Date()
+
+    for (const schedule of Object.values(schedules)) {
+      if (!schedule.enabled) continue
+      if (!schedule.nextRunAt) {
+        schedule.nextRunAt = planNextRun(schedule, now)
+        continue
+      }
+
+      const dueAt = new Date(schedule.nextRunAt)
+      if (dueAt > now) continue
+
+      const missed = now.getTime() - dueAt.getTime() > MISSED_RUN_GRACE_MS
+      if (missed && schedule.catchUp === false) {
+        log.info(`Skipping missed run of schedule ${schedule.name} due at ${schedule.nextRunAt}`)
+        schedule.lastSkipReason = `Missed run due at ${schedule.nextRunAt} was skipped`
+        schedule.nextRunAt = planNextRun(schedule, now)
+        continue
+      }
+
+      if (missed) log.info(`Catching up missed run of schedule ${schedule.name} due at ${schedule.nextRunAt}`)
+      startRun(schedule, now)
+    }
+  })
+}
+
+function startRun(schedule: Schedule, now: Date, actor: AuditActor = scheduleActor(schedule)) {
+  try {
+    const job = enqueueLoginJob(schedule.request, actor, schedule.id)
+    log.info(`Schedule ${schedule.name} queued job ${job.id}`, { scheduleId: schedule.id, jobId: job.id })
+    schedule.lastJobId = job.id
+    schedule.lastSkipReason = undefined
+  } catch (err) {
+    schedule.lastSkipReason = `Could not queue job: ${err instanceof Error ? err.message : String(err)}`
+  }
+  schedule.lastRunAt = now.toISOString()
+  if (schedule.enabled) schedule.nextRunAt = planNextRun(schedule, now)
+}
+
+function planNextRun(schedule: Schedule, after: Date): string {
+  const next = nextCronTime(schedule.cron, schedule.timezone, after)
+  const jitterMs = Math.floor(Math.random() * (schedule.jitterSeconds ?? 0) * 1000)
+  return new Date(next.getTime() + jitterMs).toISOString()
+}
+
+function nextCronTime(cron: string, timezone: string | undefined, after: Date): Date {
+  return CronExpressionParser.parse(cron, { currentDate: after, tz: timezone ?? "UTC" })
+    .next()
+    .toDate()
+}
+
+function toView(schedule: Schedule): ScheduleView {
+  const job = schedule.lastJobId ? getJob(schedule.lastJobId) : undefined
+  return { ...schedule, lastJobState: job?.state }
+}
@@ -0,0 +1,19 @@
+// References to secrets kept in the server environment
+
+/**
+ * Resolve a secret reference to its value. References name environment variables
+ * and must carry the expected prefix so requests cannot read arbitrary env.
+ * @param ref - Environment variable name, e.g. TOTP_LEETCODE
+ * @param prefix - Required prefix for this kind of secret
+ * @returns The stored secret
+ */
+export function resolveEnvSecretRef(ref: string, prefix: string): string {
+  if (!ref.startsWith(prefix)) {
+    throw new Error(`Secret references must start with ${prefix}`)
+  }
+  const value = process.env[ref]
+  if (!value) {
+    throw new Error(`Secret reference ${ref} is not set`)
+  }
+  return value
+}
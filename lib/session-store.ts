@@ -0,0 +1,231 @@
+// Persisted Playwright storage state per account, reused to skip credential logins
+
+import type { BrowserContext } from "playwright"
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+import type { LoginRequest } from "@/lib/login-automation"
+
+export type StorageState = Awaited<ReturnType<BrowserContext["storageState"]>>
+
+export interface CriticalCookieExpiry {
+  name: string
+  domain: string
+  /** Unset for browser-session cookies */
+  expiresAt?: string
+}
+
+export interface SessionRefresh {
+  /** Secret-free request that logs the account in again */
+  request: LoginRequest
+  marginMinutes: number
+  /** When the re-login is due; cleared once it has been queued */
+  refreshAt?: string
+  lastJobId?: string
+  lastQueuedAt?: string
+}
+
+export interface StoredSession {
+  account: string
+  targetUrl: string
+  savedAt: string
+  storageState: StorageState
+  criticalCookies: CriticalCookieExpiry[]
+  /** Earliest expiry among the critical cookies */
+  expiresAt?: string
+  /** Set when the session can be refreshed without secrets from the original request */
+  refresh?: SessionRefresh
+}
+
+/** Session details returned by the API: expiry information, never cookie values */
+export interface SessionStatus {
+  account: string
+  targetUrl: string
+  savedAt: string
+  expiresAt?: string
+  expiresInSeconds?: number
+  expired: boolean
+  criticalCookies: (CriticalCookieExpiry & { expiresInSeconds?: number })[]
+  refresh?: Omit<SessionRefresh, "request">
+}
+
+type SessionFile = Record<string, StoredSession>
+
+const SESSIONS_FILE = "sessions.json"
+const DEFAULT_REFRESH_MARGIN_MINUTES = Number(process.env.SESSION_REFRESH_MARGIN_MINUTES) || 60
+// Never plan a refresh sooner than this after a save, so short-lived cookies cannot cause a login loop
+const MIN_REFRESH_DELAY_MS = 5 * 60 * 1000
+
+/**
+ * Account key from a route parameter. Keys contain ":" and often "@", which clients may or may not
+ * percent-encode, so the value is decoded when it can be and used as it is otherwise.
+ * @param value - Raw route parameter
+ * @returns Account key
+ */
+export function decodeAccountParam(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Key a session is stored under: an explicit account name, or host and username of the request
+ * @param request - Target URL, username and optional account name
+ * @returns Account key, e.g. "leetcode.com:alice"
+ */
+export function sessionAccount({
+  account,
+  targetUrl,
+  username,
+}: {
+  account?: string
+  targetUrl: string
+  username: string
+}): string {
+  if (account) return account
+  return `${new URL(targetUrl).hostname.replace(/^www\./, "")}:${username}`
+}
+
+/**
+ * Load the stored session of an account
+ * @param account - Account key
+ * @returns The stored session, or null when none was saved
+ */
+export async function loadSession(account: string): Promise<StoredSession | null> {
+  const sessions = await readJsonFile<SessionFile>(SESSIONS_FILE, {})
+  // Own entries only, so accounts like "constructor" do not find Object.prototype members
+  return Object.hasOwn(sessions, account) ? sessions[account] : null
+}
+
+/**
+ * Save the storage state of a verified login, replacing any earlier one
+ * @param account - Account key
+ * @param targetUrl - Site the session belongs to
+ * @param storageState - Cookies and localStorage from the browser context
+ * @param options - Critical cookies to watch and, when refreshable, the request that logs in again
+ * @returns The stored session
+ */
+export async function saveSession(
+  account: string,
+  targetUrl: string,
+  storageState: StorageState,
+  options: {
+    criticalCookies: { name: string; domain: string; expires?: number }[]
+    refreshRequest?: LoginRequest
+    refreshMarginMinutes?: number
+  },
+): Promise<StoredSession> {
+  const now = Date.now()
+  const criticalCookies: CriticalCookieExpiry[] = options.criticalCookies.map((c) => ({
+    name: c.name,
+    domain: c.domain,
+    expiresAt: c.expires && c.expires > 0 ? new Date(c.expires * 1000).toISOString() : undefined,
+  }))
+  const expiries = criticalCookies.filter((c) => c.expiresAt).map((c) => new Date(c.expiresAt!).getTime())
+  const expiresAt = expiries.length > 0 ? new Date(Math.min(...expiries)).toISOString() : undefined
+
+  let refresh: SessionRefresh | undefined
+  if (options.refreshRequest) {
+    const marginMinutes = options.refreshMarginMinutes ?? DEFAULT_REFRESH_MARGIN_MINUTES
+    refresh = {
+      request: options.refreshRequest,
+      marginMinutes,
+      refreshAt: expiresAt
+        ? new Date(
+            Math.max(new Date(expiresAt).getTime() - marginMinutes * 60 * 1000, now + MIN_REFRESH_DELAY_MS),
+          ).toISOString()
+        : undefined,
+    }
+  }
+
+  const session: StoredSession = {
+    account,
+    targetUrl,
+    savedAt: new Date(now).toISOString(),
+    storageState,
+    criticalCookies,
+    expiresAt,
+    refresh,
+  }
+  await updateJsonFile<SessionFile>(SESSIONS_FILE, {}, (sessions) => {
+    sessions[account] = session
+  })
+  return session
+}
+
+/**
+ * Expiry details of a stored session
+ * @param account - Account key
+ * @returns Time to expiry of the session and its critical cookies, or null when none was saved
+ */
+export async function getSessionStatus(account: string): Promise<SessionStatus | null> {
+  const session = await loadSession(account)
+  if (!session) return null
+
+  const now = Date.now()
+  const secondsUntil = (at?: string) => (at ? Math.floor((new Date(at).getTime() - now) / 1000) : undefined)
+  const expiresInSeconds = secondsUntil(session.expiresAt)
+
+  let refresh: SessionStatus["refresh"]
+  if (session.refresh) {
+    const { request: _request, ...details } = session.refresh
+    refresh = details
+  }
+
+  return {
+    account: session.account,
+    targetUrl: session.targetUrl,
+    savedAt: session.savedAt,
+    expiresAt: session.expiresAt,
+    expiresInSeconds,
+    expired: expiresInSeconds !== undefined && expiresInSeconds <= 0,
+    criticalCookies: (session.criticalCookies ?? []).map((c) => ({
+      ...c,
+      expiresInSeconds: secondsUntil(c.expiresAt),
+    })),
+    refresh,
+  }
+}
+
+/**
+ * Take the sessions whose refresh is due and mark them as queued, so each refresh runs once
+ * @param now - Current time
+ * @returns Accounts with the request that logs them in again
+ */
+export async function claimDueRefreshes(now = new Date()): Promise<{ account: string; request: LoginRequest }[]> {
+  const due: { account: string; request: LoginRequest }[] = []
+
+  await updateJsonFile<SessionFile>(SESSIONS_FILE, {}, (sessions) => {
+    for (const session of Object.values(sessions)) {
+      const refresh = session.refresh
+      if (!refresh?.refreshAt || new Date(refresh.refreshAt) > now) continue
+      due.push({ account: session.account, request: refresh.request })
+      refresh.refreshAt = undefined
+      refresh.lastQueuedAt = now.toISOString()
+    }
+  })
+
+  return due
+}
+
+/**
+ * Remember which job refreshes a session
+ * @param account - Account key
+ * @param jobId - Queued login job
+ */
+export async function recordRefreshJob(account: string, jobId: string): Promise<void> {
+  await updateJsonFile<SessionFile>(SESSIONS_FILE, {}, (sessions) => {
+    const refresh = Object.hasOwn(sessions, account) ? sessions[account].refresh : undefined
+    if (refresh) refresh.lastJobId = jobId
+  })
+}
+
+/**
+ * Forget the stored session of an account, e.g. after it failed validation
+ * @param account - Account key
+ */
+export async function deleteSession(account: string): Promise<void> {
+  await updateJsonFile<SessionFile>(SESSIONS_FILE, {}, (sessions) => {
+    delete sessions[account]
+  })
+}
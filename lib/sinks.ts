@@ -0,0 +1,260 @@
+// Output sinks a login run delivers its cookies to: webhooks, file drops, the key-value store and the pull endpoint
+
+import { promises as fs } from "fs"
+import path from "path"
+import { dataPath } from "@/lib/data-store"
+import { kvGet, kvSet } from "@/lib/kv-store"
+import { logger } from "@/lib/logger"
+import { renderPayloadTemplate, validatePayloadTemplate, type PayloadTemplate } from "@/lib/payload-template"
+import { redactPayload, resolveRedaction, validateRedactionPolicy, type RedactionPolicy } from "@/lib/redaction"
+import { validateUrl } from "@/lib/url-policy"
+import { enqueueWebhookDelivery } from "@/lib/webhook-outbox"
+import { resolveWebhookSecret } from "@/lib/webhook-signing"
+
+export type SinkConfig =
+  /** n8n Webhook node; the URL must be an n8n /webhook/ or /webhook-test/ URL */
+  (
+    | { type: "n8n"; url: string; secretRef?: string; template?: PayloadTemplate }
+    /** Any HTTPS endpoint accepting a signed JSON POST */
+    | { type: "webhook"; url: string; secretRef?: string; template?: PayloadTemplate }
+    /** One JSON file per run under SINK_FILE_DIR, optionally in a subdirectory */
+    | { type: "file"; directory?: string }
+    /** Key-value entry, by default "cookies:<account>", expiring with the session */
+    | { type: "kv"; key?: string; ttlSeconds?: number }
+    /** Latest payload served by GET /api/sessions/:account/cookies */
+    | { type: "pull" }
+  ) & {
+    /** How values appear in what this sink receives; full by default */
+    redaction?: RedactionPolicy
+  }
+
+export type SinkType = SinkConfig["type"]
+
+export const SINK_TYPES: SinkType[] = ["n8n", "webhook", "file", "kv", "pull"]
+
+export interface SinkContext {
+  account: string
+  /** When the session's first critical cookie expires */
+  expiresAt?: string
+}
+
+export interface SinkResult {
+  type: SinkType
+  delivered: boolean
+  /** Where the payload went: URL, file path or key */
+  target: string
+  error?: string
+  /** Webhook sinks: outbox delivery that retries a failed send */
+  delivery?: { id: string; state: string; attempts: number; nextAttemptAt?: string }
+}
+
+const PULL_KEY_PREFIX = "pull:"
+const DEFAULT_KV_KEY_PREFIX = "cookies:"
+// Namespaces the sinks write per account; a custom kv key inside one could overwrite another account's cookies
+const RESERVED_KV_PREFIXES = [PULL_KEY_PREFIX, DEFAULT_KV_KEY_PREFIX]
+const DIRECTORY_PATTERN = /^[\w-]+$/
+
+/**
+ * The sinks of a request: its sinks list, plus an n8n sink for the legacy webhookUrl field
+ * @param request - Login request fields
+ * @returns Sinks to deliver to
+ */
+export function resolveSinks({
+  sinks,
+  webhookUrl,
+  webhookSecretRef,
+  webhookTemplate,
+}: {
+  sinks?: SinkConfig[]
+  webhookUrl?: string
+  webhookSecretRef?: string
+  webhookTemplate?: PayloadTemplate
+}): SinkConfig[] {
+  const resolved = [...(sinks ?? [])]
+  if (webhookUrl) {
+    resolved.unshift({ type: "n8n", url: webhookUrl, secretRef: webhookSecretRef, template: webhookTemplate })
+  }
+  return resolved
+}
+
+/**
+ * Validate one sink configuration
+ * @param sink - Sink from a request
+ * @returns Error message, or null when the sink is usable
+ */
+export function validateSinkConfig(sink: unknown): string | null {
+  if (!sink || typeof sink !== "object") {
+    return "sink must be an object"
+  }
+
+  const config = sink as SinkConfig
+  if (config.redaction !== undefined) {
+    const redactionError = validateRedactionPolicy(config.redaction)
+    if (redactionError) return redactionError
+  }
+
+  switch (config.type) {
+    case "n8n":
+    case "webhook": {
+      let url: URL
+      try {
+        url = new URL(config.url)
+      } catch {
+        return "url must be an absolute URL"
+      }
+      if (config.type === "n8n" && !url.pathname.includes("/webhook/") && !url.pathname.includes("/webhook-test/")) {
+        return "Invalid webhook URL. Use your n8n webhook URL like: https://your-n8n.app.n8n.cloud/webhook/xxxxx"
+      }
+      if (config.type === "webhook" && url.protocol !== "https:" && !isLocalHost(url.hostname)) {
+        return "webhook sinks must use https:// (plain http is only allowed for localhost)"
+      }
+      const urlError = validateUrl("url", config.url, "sink")
+      if (urlError) return urlError
+      if (config.template !== undefined) {
+        const templateError = validatePayloadTemplate(config.template)
+        if (templateError) return templateError
+      }
+      try {
+        resolveWebhookSecret(config.secretRef)
+      } catch (err) {
+        return `Invalid webhook signing configuration: ${err instanceof Error ? err.message : String(err)}`
+      }
+      return null
+    }
+    case "file":
+      if (config.directory !== undefined && !DIRECTORY_PATTERN.test(config.directory)) {
+        return "directory must be a single folder name of letters, digits, _ and -"
+      }
+      return null
+    case "kv": {
+      if (config.key !== undefined && (typeof config.key !== "string" || !config.key)) {
+        return "key must be a non-empty string"
+      }
+      const reserved = RESERVED_KV_PREFIXES.find((prefix) => config.key?.startsWith(prefix))
+      if (reserved) {
+        return `key must not start with "${reserved}", which is reserved for per-account entries`
+      }
+      if (
+        config.ttlSeconds !== undefined &&
+        (!Number.isInteger(config.ttlSeconds) || (config.ttlSeconds as number) <= 0)
+      ) {
+        return "ttlSeconds must be a positive whole number"
+      }
+      return null
+    }
+    case "pull":
+      return null
+    default:
+      return `type must be one of: ${SINK_TYPES.join(", ")}`
+  }
+}
+
+/**
+ * Validate the sinks of a request
+ * @param sinks - Resolved sinks
+ * @returns Error message, or null when every sink is usable
+ */
+export function validateSinks(sinks: unknown): string | null {
+  if (!Array.isArray(sinks) || sinks.length === 0) {
+    return "At least one sink is required: send webhookUrl or a sinks list"
+  }
+  for (const [index, sink] of sinks.entries()) {
+    const error = validateSinkConfig(sink)
+    if (error) return `sinks[${index}]: ${error}`
+  }
+  return null
+}
+
+/**
+ * Deliver a run's payload to one sink. Failures are reported in the result rather than thrown,
+ * so one broken sink does not keep the others from receiving the cookies.
+ * @param sink - Validated sink
+ * @param payload - Run payload with cookies, storage and debug info
+ * @param context - Account the payload belongs to
+ * @returns What happened to the payload
+ */
+export async function deliverToSink(
+  sink: SinkConfig,
+  payload: Record<string, unknown>,
+  context: SinkContext,
+): Promise<SinkResult> {
+  let target = ""
+  payload = redactPayload(payload, resolveRedaction("sinks", sink.redaction))
+  try {
+    target = sinkTarget(sink, context)
+    switch (sink.type) {
+      case "n8n":
+      case "webhook": {
+        const delivery = await enqueueWebhookDelivery({
+          url: sink.url,
+          secretRef: sink.secretRef,
+          payload: sink.template
+            ? renderPayloadTemplate(sink.template, { ...payload, account: context.account })
+            : payload,
+          subject: context.account,
+        })
+        return {
+          type: sink.type,
+          delivered: delivery.state === "delivered",
+          target,
+          error: delivery.lastError,
+          delivery: {
+            id: delivery.id,
+            state: delivery.state,
+            attempts: delivery.attempts,
+            nextAttemptAt: delivery.nextAttemptAt,
+          },
+        }
+      }
+      case "file":
+        await fs.mkdir(path.dirname(target), { recursive: true })
+        await fs.writeFile(target, JSON.stringify(payload, null, 2), { mode: 0o600 })
+        return { type: sink.type, delivered: true, target }
+      case "kv":
+        await kvSet(target, payload, sink.ttlSeconds ?? secondsUntil(context.expiresAt))
+        return { type: sink.type, delivered: true, target }
+      case "pull":
+        await kvSet(target, payload, secondsUntil(context.expiresAt))
+        return { type: sink.type, delivered: true, target }
+    }
+  } catch (err) {
+    const error = err instanceof Error ? err.message : String(err)
+    logger.error(`Sink ${sink.type} failed`, { sink: sink.type, account: context.account, error })
+    return { type: sink.type, delivered: false, target, error }
+  }
+}
+
+/**
+ * Latest payload a pull sink stored for an account
+ * @param account - Account key
+ * @returns The payload, or null when none was stored or the session has expired
+ */
+export async function getPulledCookies(account: string): Promise<unknown | null> {
+  return kvGet(`${PULL_KEY_PREFIX}${account}`)
+}
+
+function sinkTarget(sink: SinkConfig, context: SinkContext): string {
+  switch (sink.type) {
+    case "n8n":
+    case "webhook":
+      return sink.url
+    case "file": {
+      const baseDir = process.env.SINK_FILE_DIR || dataPath("drops")
+      const fileName = `${context.account.replace(/[^\w.-]+/g, "_")}-${new Date().toISOString().replace(/[:.]/g, "-")}.json`
+      return path.join(baseDir, sink.directory ?? "", fileName)
+    }
+    case "kv":
+      return sink.key ?? `${DEFAULT_KV_KEY_PREFIX}${context.account}`
+    case "pull":
+      return `${PULL_KEY_PREFIX}${context.account}`
+  }
+}
+
+function secondsUntil(at?: string) {
+  if (!at) return undefined
+  return Math.max(1, Math.floor((new Date(at).getTime() - Date.now()) / 1000))
+}
+
+function isLocalHost(hostname: string) {
+  return hostname === "localhost" || hostname === "127.0.0.1" || hostname === "[::1]"
+}
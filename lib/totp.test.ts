@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest"
+import { decodeBase32, generateTotp, parseTotpSecret, type TotpAlgorithm } from "@/lib/totp"
+
+// RFC 6238 appendix B: each algorithm has its own seed, the ASCII digits repeated to the hash's length
+const SEEDS: Record<TotpAlgorithm, Buffer> = {
+  SHA1: Buffer.from("12345678901234567890"),
+  SHA256: Buffer.from("12345678901234567890123456789012"),
+  SHA512: Buffer.from("1234567890123456789012345678901234567890123456789012345678901234"),
+}
+
+const VECTORS: [seconds: number, codes: Record<TotpAlgorithm, string>][] = [
+  [59, { SHA1: "94287082", SHA256: "46119246", SHA512: "90693936" }],
+  [1111111109, { SHA1: "07081804", SHA256: "68084774", SHA512: "25091201" }],
+  [1111111111, { SHA1: "14050471", SHA256: "67062674", SHA512: "99943326" }],
+  [1234567890, { SHA1: "89005924", SHA256: "91819424", SHA512: "93441116" }],
+  [2000000000, { SHA1: "69279037", SHA256: "90698825", SHA512: "38618901" }],
+  [20000000000, { SHA1: "65353130", SHA256: "77737706", SHA512: "47863826" }],
+]
+
+describe("generateTotp", () => {
+  for (const [seconds, codes] of VECTORS) {
+    for (const algorithm of ["SHA1", "SHA256", "SHA512"] as const) {
+      it(`matches the RFC 6238 ${algorithm} vector at ${seconds}s`, () => {
+        const config = { key: SEEDS[algorithm], digits: 8, period: 30, algorithm }
+        expect(generateTotp(config, seconds * 1000)).toBe(codes[algorithm])
+      })
+    }
+  }
+
+  it("keeps leading zeros of six-digit codes", () => {
+    const config = { key: SEEDS.SHA1, digits: 6, period: 30, algorithm: "SHA1" as const }
+    expect(generateTotp(config, 1111111109 * 1000)).toBe("081804")
+  })
+})
+
+describe("decodeBase32", () => {
+  it("decodes the RFC 4648 vectors", () => {
+    expect(decodeBase32("").toString()).toBe("")
+    expect(decodeBase32("MY======").toString()).toBe("f")
+    expect(decodeBase32("MZXQ====").toString()).toBe("fo")
+    expect(decodeBase32("MZXW6===").toString()).toBe("foo")
+    expect(decodeBase32("MZXW6YQ=").toString()).toBe("foob")
+    expect(decodeBase32("MZXW6YTB").toString()).toBe("fooba")
+    expect(decodeBase32("MZXW6YTBOI======").toString()).toBe("foobar")
+  })
+
+  it("ignores case, spaces and dashes", () => {
+    expect(decodeBase32("gezd gnbv-gy3t qojq gezd gnbv gy3t qojq").equals(SEEDS.SHA1)).toBe(true)
+  })
+
+  it("rejects characters outside the alphabet", () => {
+    expect(() => decodeBase32("MZXW1")).toThrow("Invalid base32 character: 1")
+  })
+})
+
+describe("parseTotpSecret", () => {
+  it("reads the secret and parameters of an otpauth URI", () => {
+    const config = parseTotpSecret(
+      "otpauth://totp/Example:alice?secret=GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ&digits=8&algorithm=SHA1&period=30",
+    )
+    expect(config).toEqual({ key: SEEDS.SHA1, digits: 8, period: 30, algorithm: "SHA1" })
+    expect(generateTotp(config, 59 * 1000)).toBe("94287082")
+  })
+})
@@ -0,0 +1,137 @@
+// RFC 6238 time-based one-time passwords
+
+import { createHmac } from "crypto"
+import { resolveEnvSecretRef } from "@/lib/secret-refs"
+
+export type TotpAlgorithm = "SHA1" | "SHA256" | "SHA512"
+
+export interface TotpConfig {
+  /** Shared secret as raw key bytes */
+  key: Buffer
+  digits: number
+  period: number
+  algorithm: TotpAlgorithm
+}
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+const SECRET_REF_PREFIX = "TOTP_"
+
+/**
+ * Decode an RFC 4648 base32 string (case-insensitive, spaces and padding ignored)
+ * @param input - Base32 encoded secret
+ * @returns Decoded bytes
+ */
+export function decodeBase32(input: string): Buffer {
+  const clean = input.replace(/[\s=-]/g, "").toUpperCase()
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char)
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`)
+    }
+    buffer = (buffer << 5) | index
+    bits += 5
+    if (bits >= 8) {
+      bits -= 8
+      bytes.push((buffer >> bits) & 0xff)
+    }
+  }
+
+  return Buffer.from(bytes)
+}
+
+/**
+ * Generate an RFC 4226 HOTP code
+ * @param key - Shared secret bytes
+ * @param counter - Moving factor
+ * @param digits - Code length
+ * @param algorithm - HMAC hash
+ * @returns Zero-padded numeric code
+ */
+export function generateHotp(key: Buffer, counter: number, digits = 6, algorithm: TotpAlgorithm = "SHA1"): string {
+  const message = Buffer.alloc(8)
+  message.writeBigUInt64BE(BigInt(counter))
+
+  const hmac = createHmac(algorithm.toLowerCase(), key).update(message).digest()
+  const offset = hmac[hmac.length - 1] & 0x0f
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    ((hmac[offset + 1] & 0xff) << 16) |
+    ((hmac[offset + 2] & 0xff) << 8) |
+    (hmac[offset + 3] & 0xff)
+
+  return String(binary % 10 ** digits).padStart(digits, "0")
+}
+
+/**
+ * Generate an RFC 6238 TOTP code.
+ * With key "12345678901234567890" (ASCII), SHA1, 8 digits and time 59s the code is 94287082.
+ * @param config - Secret and code parameters
+ * @param timeMs - Time to generate the code for (defaults to now)
+ * @returns Zero-padded numeric code
+ */
+export function generateTotp(config: TotpConfig, timeMs = Date.now()): string {
+  const counter = Math.floor(timeMs / 1000 / config.period)
+  return generateHotp(config.key, counter, config.digits, config.algorithm)
+}
+
+/**
+ * Seconds left before the current code rolls over
+ * @param config - Code parameters
+ * @param timeMs - Current time
+ */
+export function secondsRemaining(config: Pick<TotpConfig, "period">, timeMs = Date.now()): number {
+  return config.period - (Math.floor(timeMs / 1000) % config.period)
+}
+
+/**
+ * Parse a secret given as base32 or as an otpauth:// URI from an authenticator QR code
+ * @param secret - Base32 secret or otpauth URI
+ * @param overrides - Explicit digits/period/algorithm taking precedence over the URI
+ * @returns Parsed TOTP configuration
+ */
+export function parseTotpSecret(secret: string, overrides: Partial<Omit<TotpConfig, "key">> = {}): TotpConfig {
+  let encoded = secret.trim()
+  let digits = 6
+  let period = 30
+  let algorithm: TotpAlgorithm = "SHA1"
+
+  if (encoded.startsWith("otpauth://")) {
+    const uri = new URL(encoded)
+    if (uri.host !== "totp") {
+      throw new Error(`Unsupported otpauth type: ${uri.host}`)
+    }
+    encoded = uri.searchParams.get("secret") ?? ""
+    digits = Number(uri.searchParams.get("digits")) || digits
+    period = Number(uri.searchParams.get("period")) || period
+    algorithm = (uri.searchParams.get("algorithm")?.toUpperCase() as TotpAlgorithm) || algorithm
+  }
+
+  const config: TotpConfig = {
+    key: decodeBase32(encoded),
+    digits: overrides.digits ?? digits,
+    period: overrides.period ?? period,
+    algorithm: overrides.algorithm ?? algorithm,
+  }
+
+  if (config.key.length === 0) throw new Error("TOTP secret is empty")
+  if (!["SHA1", "SHA256", "SHA512"].includes(config.algorithm)) {
+    throw new Error(`Unsupported TOTP algorithm: ${config.algorithm}`)
+  }
+  if (config.digits < 6 || config.digits > 10) throw new Error("TOTP digits must be between 6 and 10")
+  if (config.period <= 0) throw new Error("TOTP period must be positive")
+
+  return config
+}
+
+/**
+ * Resolve a stored secret reference (a TOTP_* environment variable) to its value
+ * @param ref - Environment variable name, e.g. TOTP_LEETCODE
+ * @returns The stored secret
+ */
+export function resolveTotpSecretRef(ref: string): string {
+  return resolveEnvSecretRef(ref, SECRET_REF_PREFIX)
+}
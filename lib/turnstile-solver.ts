@@ -1,4 +1,7 @@
 import type { Page } from "playwright"
+import { logger } from "@/lib/logger"
+
+const log = logger.child({ component: "turnstile" })
 
 /**
  * Advanced Cloudflare Turnstile Solver
@@ -10,7 +13,7 @@ export async function solveTurnstileChallenge(page: Page): Promise<{
   method?: string
 }> {
   try {
-    console.log("[v0] Starting Cloudflare Turnstile detection...")
+    log.debug("Starting Cloudflare Turnstile detection")
 
     // Check if Cloudflare is present
     const isCloudflare = await page.evaluate(() => {
@@ -27,14 +30,14 @@ export async function solveTurnstileChallenge(page: Page): Promise<{
       return { success: true, message: "No Cloudflare Turnstile detected" }
     }
 
-    console.log("[v0] Cloudflare Turnstile detected. Attempting to solve...")
+    log.info("Cloudflare Turnstile detected, attempting to solve")
 
     // Strategy 1: Find the checkbox iframe and click it
     const frames = page.frames()
     const turnstileFrame = frames.find((f) => f.url().includes("challenges.cloudflare.com"))
 
     if (turnstileFrame) {
-      console.log("[v0] Found Turnstile iframe, attempting to click checkbox...")
+      log.debug("Found Turnstile iframe, attempting to click checkbox")
 
       try {
         // Find the checkbox inside the iframe
@@ -50,7 +53,7 @@ export async function solveTurnstileChallenge(page: Page): Promise<{
             await page.waitForTimeout(Math.random() * 500 + 200)
             await page.mouse.click(box.x + box.width / 2, box.y + box.height / 2)
 
-            console.log("[v0] Clicked Turnstile checkbox via coordinates")
+            log.info("Clicked Turnstile checkbox via coordinates")
 
             // Wait for success
             await page.waitForTimeout(3000)
@@ -62,7 +65,7 @@ export async function solveTurnstileChallenge(page: Page): Promise<{
           }
         }
       } catch (clickErr) {
-        console.error("[v0] Frame click strategy failed:", clickErr)
+        log.warn("Frame click strategy failed", { error: clickErr })
       }
     }
 
@@ -90,7 +93,7 @@ export async function solveTurnstileChallenge(page: Page): Promise<{
 
     return { success: false, message: "Detected Cloudflare but could not solve automatically" }
   } catch (error) {
-    console.error("[v0] Turnstile solver error:", error)
+    log.error("Turnstile solver failed", { error })
     return {
       success: false,
       message: `Error solving Turnstile: ${error instanceof Error ? error.message : String(error)}`,
@@ -0,0 +1,319 @@
+// Policy for the URLs the browser and webhook deliveries may reach: public addresses only, and allowlisted domains
+
+import { lookup } from "dns/promises"
+import { BlockList, isIP } from "net"
+import type { BrowserContext, Request, Route } from "playwright"
+
+/**
+ * What a URL is used for: "login" for login and target pages, probes and top-level browser navigations,
+ * "sink" for webhook deliveries, "resource" for everything else a page loads (only the address is checked)
+ */
+export type UrlPurpose = "login" | "sink" | "resource"
+
+/**
+ * Error raised when a URL or host breaks the policy; the message names it
+ */
+export class UrlPolicyError extends Error {
+  url: string
+
+  constructor(url: string, reason: string, kind: "URL" | "Host" = "URL") {
+    super(`${kind} ${url} is not allowed: ${reason}`)
+    this.name = "UrlPolicyError"
+    this.url = url
+  }
+}
+
+/** A request the browser guard stopped */
+export interface BlockedRequest {
+  url: string
+  reason: string
+  /**
+   * Whether the page was stopped, which ends the run: a rejected navigation or a request redirected to a rejected
+   * URL, rather than a resource request aborted before it was sent
+   */
+  navigation: boolean
+}
+
+const ALLOWLISTS: Record<Exclude<UrlPurpose, "resource">, string[]> = {
+  login: parseList(process.env.LOGIN_URL_ALLOWLIST),
+  sink: parseList(process.env.SINK_URL_ALLOWLIST),
+}
+
+// Hosts an operator trusts to resolve to private addresses, e.g. a self-hosted n8n on the same network
+const PRIVATE_HOSTS = parseList(process.env.PRIVATE_URL_HOSTS)
+
+const MAX_REDIRECTS = 5
+
+const blockedRanges = createBlockedRanges()
+
+/**
+ * Check what can be told without DNS: scheme, embedded credentials, allowlist and literal IP addresses
+ * @param url - URL to check
+ * @param purpose - What the URL is used for
+ * @returns Reason the URL is rejected, or null when it passes
+ */
+export function checkUrl(url: string, purpose: UrlPurpose): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return "not an absolute URL"
+  }
+
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return `${parsed.protocol} URLs are not supported; use http:// or https://`
+  }
+  if (parsed.username || parsed.password) {
+    return "URLs must not embed credentials"
+  }
+
+  const host = hostnameOf(parsed)
+  if (purpose !== "resource") {
+    const allowlist = ALLOWLISTS[purpose]
+    if (allowlist.length > 0 && !allowlist.some((domain) => matchesDomain(host, domain))) {
+      const variable = purpose === "login" ? "LOGIN_URL_ALLOWLIST" : "SINK_URL_ALLOWLIST"
+      return `${host} is not in ${variable}`
+    }
+  }
+
+  return checkHost(host)
+}
+
+/**
+ * Check a URL, resolving its host so names pointing at private addresses are caught too
+ * @param url - URL to check
+ * @param purpose - What the URL is used for
+ * @throws UrlPolicyError when the URL is rejected
+ */
+export async function assertUrlAllowed(url: string, purpose: UrlPurpose): Promise<void> {
+  const reason = checkUrl(url, purpose)
+  if (reason) throw new UrlPolicyError(url, reason)
+
+  const resolveError = await checkResolvedHost(hostnameOf(new URL(url)))
+  if (resolveError) throw new UrlPolicyError(url, resolveError)
+}
+
+/**
+ * Check a host the service connects to other than over HTTP, e.g. an IMAP server, with the same
+ * address rules as URLs: no local, private or link-local addresses, also after resolving the name
+ * @param host - Host name or IP address
+ * @throws UrlPolicyError when the host is rejected
+ */
+export async function assertHostAllowed(host: string): Promise<void> {
+  const normalized = normalizeHost(host.trim())
+  const reason = normalized ? (checkHost(normalized) ?? (await checkResolvedHost(normalized))) : "no host given"
+  if (reason) throw new UrlPolicyError(host, reason, "Host")
+}
+
+/**
+ * Check a request field without DNS, for validators that cannot wait on a lookup
+ * @param field - Request field the URL came from
+ * @param url - URL to check
+ * @param purpose - What the URL is used for
+ * @returns Error message naming the field and URL, or null when it passes
+ */
+export function validateUrl(field: string, url: string, purpose: UrlPurpose): string | null {
+  const reason = checkUrl(url, purpose)
+  return reason ? `${field}: ${new UrlPolicyError(url, reason).message}` : null
+}
+
+/**
+ * Check the URLs of a request, resolving hosts, for a 400 response before any work is queued
+ * @param urls - URLs by the request field they came from
+ * @param purpose - What the URLs are used for
+ * @returns Error message naming the field and URL, or null when all pass
+ */
+export async function validateUrls(
+  urls: { field: string; url: string }[],
+  purpose: UrlPurpose,
+): Promise<string | null> {
+  for (const { field, url } of urls) {
+    try {
+      await assertUrlAllowed(url, purpose)
+    } catch (err) {
+      if (err instanceof UrlPolicyError) return `${field}: ${err.message}`
+      throw err
+    }
+  }
+  return null
+}
+
+/**
+ * fetch() that checks the URL and every redirect hop against the policy. Only 307 and 308 redirects,
+ * which keep the method and body, are followed; other redirects are returned as they are.
+ * @param url - URL to fetch
+ * @param init - fetch options; redirect is always handled here
+ * @param purpose - What the URL is used for
+ * @returns The final response
+ * @throws UrlPolicyError when the URL or a redirect target is rejected
+ */
+export async function fetchWithUrlPolicy(url: string, init: RequestInit, purpose: UrlPurpose): Promise<Response> {
+  let current = url
+  for (let hop = 0; ; hop++) {
+    await assertUrlAllowed(current, purpose)
+    const response = await fetch(current, { ...init, redirect: "manual" })
+    const location = response.headers.get("location")
+    if ((response.status !== 307 && response.status !== 308) || !location) return response
+
+    if (hop >= MAX_REDIRECTS) {
+      throw new Error(`Too many redirects from ${url}`)
+    }
+    current = new URL(location, current).toString()
+  }
+}
+
+/**
+ * Enforce the policy on everything a browser context loads. Requests are checked before they are sent;
+ * redirects cannot be stopped before they are followed, so a page with any request that follows a rejected
+ * redirect is closed. Top-level navigations are held to the login allowlist, other requests only to public addresses.
+ * @param context - Browser context to guard
+ * @param onBlocked - Called for each request that was stopped
+ */
+export async function guardBrowserContext(
+  context: BrowserContext,
+  onBlocked: (blocked: BlockedRequest) => void,
+): Promise<void> {
+  const decisions = new Map<string, Promise<string | null>>()
+
+  // Allowlist results differ by purpose and DNS answers are the same for an origin, so decisions are cached per both
+  const decide = (url: string, purpose: UrlPurpose) => {
+    const key = `${purpose} ${new URL(url).origin}`
+    let decision = decisions.get(key)
+    if (!decision) {
+      decision = assertUrlAllowed(url, purpose).then(
+        () => null,
+        (err) => (err instanceof UrlPolicyError ? err.message : String(err)),
+      )
+      decisions.set(key, decision)
+    }
+    return decision
+  }
+
+  await context.route("**/*", async (route: Route) => {
+    const request = route.request()
+    if (!/^https?:/.test(request.url())) return route.continue()
+
+    const navigation = isTopLevelNavigation(request)
+    const reason = await decide(request.url(), navigation ? "login" : "resource")
+    if (!reason) return route.continue()
+
+    onBlocked({ url: request.url(), reason, navigation })
+    await route.abort("blockedbyclient")
+  })
+
+  // Route handlers only see the first request of a redirect chain. Any request may be redirected, so every hop is
+  // checked; the response of a rejected one is already on its way into the page, so the page is closed.
+  context.on("request", (request) => {
+    const redirectedFrom = request.redirectedFrom()
+    if (!redirectedFrom || !/^https?:/.test(request.url())) return
+
+    const navigation = isTopLevelNavigation(request)
+    void decide(request.url(), navigation ? "login" : "resource").then(async (reason) => {
+      if (!reason) return
+      onBlocked({ url: request.url(), reason: `${reason} (redirected from ${redirectedFrom.url()})`, navigation: true })
+      await closeRequestPage(request)
+    })
+  })
+}
+
+function checkHost(host: string): string | null {
+  if (isPrivateHostAllowed(host)) return null
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    return `${host} is a local address`
+  }
+  if (isIP(host) && isBlockedAddress(host)) {
+    return `${host} is a private, loopback or link-local address`
+  }
+  return null
+}
+
+async function checkResolvedHost(host: string): Promise<string | null> {
+  if (isIP(host) || isPrivateHostAllowed(host)) return null
+
+  let addresses: { address: string }[]
+  try {
+    addresses = await lookup(host, { all: true, verbatim: true })
+  } catch (err) {
+    return `${host} could not be resolved (${err instanceof Error ? err.message : err})`
+  }
+  const blocked = addresses.find(({ address }) => isBlockedAddress(address))
+  return blocked ? `${host} resolves to ${blocked.address}, a private, loopback or link-local address` : null
+}
+
+function isTopLevelNavigation(request: Request) {
+  try {
+    return request.isNavigationRequest() && request.frame().parentFrame() === null
+  } catch {
+    // Service worker requests have no frame
+    return false
+  }
+}
+
+async function closeRequestPage(request: Request) {
+  try {
+    await request.frame().page().close()
+  } catch {
+    // Service worker requests have no frame, and the page may be closed already
+  }
+}
+
+function isBlockedAddress(address: string) {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i)
+  if (mapped) return blockedRanges.check(mapped[1], "ipv4")
+  return blockedRanges.check(address, isIP(address) === 6 ? "ipv6" : "ipv4")
+}
+
+function isPrivateHostAllowed(host: string) {
+  return PRIVATE_HOSTS.includes(host)
+}
+
+function matchesDomain(host: string, domain: string) {
+  const bare = domain.replace(/^\*\./, "")
+  return host === bare || host.endsWith(`.${bare}`)
+}
+
+function hostnameOf(url: URL) {
+  return normalizeHost(url.hostname)
+}
+
+function normalizeHost(host: string) {
+  // "localhost." and "example.com." name the same hosts as without the trailing dot
+  return host.replace(/^\[|\]$|\.$/g, "").toLowerCase()
+}
+
+function parseList(source?: string) {
+  return (source ?? "")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean)
+}
+
+function createBlockedRanges() {
+  const list = new BlockList()
+  for (const [network, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+  ] as const) {
+    list.addSubnet(network, prefix, "ipv4")
+  }
+  for (const [network, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+  ] as const) {
+    list.addSubnet(network, prefix, "ipv6")
+  }
+  return list
+}
@@ -0,0 +1,128 @@
+import { mkdtemp, rm } from "fs/promises"
+import { createServer, type IncomingHttpHeaders, type Server } from "http"
+import type { AddressInfo } from "net"
+import { tmpdir } from "os"
+import path from "path"
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest"
+
+// Read when the modules load, so they are set before the imports below run
+vi.hoisted(() => {
+  process.env.PRIVATE_URL_HOSTS = "127.0.0.1"
+  process.env.WEBHOOK_MAX_ATTEMPTS = "3"
+  process.env.WEBHOOK_SECRET = "test-secret"
+})
+
+import { readJsonFile } from "@/lib/data-store"
+import { deliverDueWebhooks, enqueueWebhookDelivery, listDeliveries, replayDelivery } from "@/lib/webhook-outbox"
+import { verifyWebhookSignature } from "@/lib/webhook-signing"
+
+interface ReceivedDelivery {
+  headers: IncomingHttpHeaders
+  body: string
+}
+
+describe("webhook outbox", () => {
+  let server: Server
+  let url: string
+  let status: number
+  let received: ReceivedDelivery[]
+  let dataDir: string
+
+  beforeAll(async () => {
+    server = createServer((request, response) => {
+      let body = ""
+      request.on("data", (chunk) => (body += chunk))
+      request.on("end", () => {
+        received.push({ headers: request.headers, body })
+        response.writeHead(status).end(status === 200 ? "ok" : "receiver down")
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhook/cookies`
+  })
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)))
+
+  beforeEach(async () => {
+    dataDir = await mkdtemp(path.join(tmpdir(), "outbox-test-"))
+    process.env.DATA_DIR = dataDir
+    status = 200
+    received = []
+  })
+
+  afterEach(async () => {
+    delete process.env.DATA_DIR
+    await rm(dataDir, { recursive: true, force: true })
+  })
+
+  const outboxFile = () => readJsonFile<Record<string, { body?: string }>>("webhook-outbox.json", {})
+
+  it("sends a signed delivery and drops the payload once it is delivered", async () => {
+    const delivery = await enqueueWebhookDelivery({ url, payload: { cookies: "session=abc" }, subject: "example.com" })
+
+    expect(delivery).toMatchObject({ state: "delivered", attempts: 1 })
+    expect(received).toHaveLength(1)
+    const { headers, body } = received[0]
+    expect(JSON.parse(body)).toEqual({ cookies: "session=abc" })
+    expect(headers["x-webhook-id"]).toBe(delivery.id)
+    expect(
+      verifyWebhookSignature({
+        body,
+        timestamp: String(headers["x-webhook-timestamp"]),
+        signature: String(headers["x-webhook-signature"]),
+        secret: "test-secret",
+      }),
+    ).toEqual({ valid: true })
+    expect((await outboxFile())[delivery.id].body).toBeUndefined()
+  })
+
+  it("backs off exponentially and moves the delivery to the dead-letter list after the last attempt", async () => {
+    status = 500
+    const first = await enqueueWebhookDelivery({ url, payload: { cookies: "session=abc" } })
+
+    expect(first).toMatchObject({ state: "pending", attempts: 1, lastError: "HTTP 500: receiver down" })
+    const firstAttemptAt = new Date(first.lastAttemptAt!).getTime()
+    expect(new Date(first.nextAttemptAt!).getTime() - firstAttemptAt).toBe(30 * 1000)
+
+    // Not due yet
+    await deliverDueWebhooks(new Date(firstAttemptAt + 29 * 1000))
+    expect(received).toHaveLength(1)
+
+    await deliverDueWebhooks(new Date(firstAttemptAt + 31 * 1000))
+    const [second] = await listDeliveries("pending")
+    expect(second.attempts).toBe(2)
+    expect(new Date(second.nextAttemptAt!).getTime() - new Date(second.lastAttemptAt!).getTime()).toBe(60 * 1000)
+
+    await deliverDueWebhooks(new Date(new Date(second.nextAttemptAt!).getTime() + 1000))
+    const dead = await listDeliveries("dead")
+    expect(dead).toHaveLength(1)
+    expect(dead[0]).toMatchObject({
+      id: first.id,
+      attempts: 3,
+      deadReason: "Gave up after 3 attempts: HTTP 500: receiver down",
+    })
+    expect(dead[0]).not.toHaveProperty("body")
+    expect(received.map(({ headers }) => headers["x-webhook-id"])).toEqual([first.id, first.id, first.id])
+
+    // Dead deliveries are not retried on later ticks
+    await deliverDueWebhooks(new Date(Date.now() + 24 * 60 * 60 * 1000))
+    expect(received).toHaveLength(3)
+  })
+
+  it("replays a dead delivery with a fresh set of attempts", async () => {
+    status = 500
+    const delivery = await enqueueWebhookDelivery({ url, payload: { cookies: "session=abc" } })
+    await deliverDueWebhooks(new Date(Date.now() + 60 * 60 * 1000))
+    await deliverDueWebhooks(new Date(Date.now() + 2 * 60 * 60 * 1000))
+    expect((await listDeliveries("dead")).map(({ id }) => id)).toEqual([delivery.id])
+
+    status = 200
+    const replayed = await replayDelivery(delivery.id)
+
+    expect(replayed).toMatchObject({ id: delivery.id, state: "delivered", attempts: 1 })
+    expect(replayed).not.toHaveProperty("deadReason")
+    expect(JSON.parse(received[received.length - 1].body)).toEqual({ cookies: "session=abc" })
+    await expect(replayDelivery(delivery.id)).rejects.toThrow(`Delivery ${delivery.id} was already delivered`)
+    expect(await replayDelivery("missing")).toBeNull()
+  })
+})
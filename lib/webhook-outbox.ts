@@ -0,0 +1,232 @@
+// Durable webhook outbox: deliveries are persisted before sending and retried with exponential backoff
+
+import { randomUUID } from "crypto"
+import { readJsonFile, updateJsonFile } from "@/lib/data-store"
+import { logger } from "@/lib/logger"
+import { fetchWithUrlPolicy } from "@/lib/url-policy"
+import { resolveWebhookSecret, signWebhookDelivery } from "@/lib/webhook-signing"
+
+export type DeliveryState = "pending" | "delivered" | "dead"
+
+export interface WebhookDelivery {
+  id: string
+  url: string
+  /** WEBHOOK_SECRET_* variable the delivery is signed with, resolved on every attempt */
+  secretRef?: string
+  /** Serialized payload; dropped once delivered so cookies do not linger on disk */
+  body?: string
+  /** What the delivery is about, for listing, e.g. the target URL */
+  subject?: string
+  state: DeliveryState
+  attempts: number
+  createdAt: string
+  updatedAt: string
+  nextAttemptAt?: string
+  lastAttemptAt?: string
+  lastError?: string
+  deliveredAt?: string
+  /** Why the delivery was given up */
+  deadReason?: string
+}
+
+/** What the API returns for a delivery: never the payload, which holds cookies */
+export type DeliverySummary = Omit<WebhookDelivery, "body" | "secretRef">
+
+type OutboxFile = Record<string, WebhookDelivery>
+
+const log = logger.child({ component: "webhook-outbox" })
+
+const OUTBOX_FILE = "webhook-outbox.json"
+const MAX_ATTEMPTS = Math.max(1, Number(process.env.WEBHOOK_MAX_ATTEMPTS) || 10)
+const BASE_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 60 * 60 * 1000
+const DELIVERY_TIMEOUT_MS = 15 * 1000
+// Delivered entries are kept this long for the list route, then pruned
+const DELIVERED_RETENTION_MS = 24 * 60 * 60 * 1000
+
+// Deliveries currently being sent by this process, so a tick does not send one twice
+const globalForOutbox = globalThis as unknown as { __webhookOutboxInFlight?: Set<string> }
+const inFlight = (globalForOutbox.__webhookOutboxInFlight ??= new Set())
+
+/**
+ * Persist a delivery and make the first attempt right away
+ * @param delivery - Destination URL, optional secret reference, payload and subject
+ * @returns The delivery after its first attempt
+ */
+export async function enqueueWebhookDelivery({
+  url,
+  secretRef,
+  payload,
+  subject,
+}: {
+  url: string
+  secretRef?: string
+  payload: unknown
+  subject?: string
+}): Promise<WebhookDelivery> {
+  const now = new Date().toISOString()
+  const delivery: WebhookDelivery = {
+    id: randomUUID(),
+    url,
+    secretRef,
+    body: JSON.stringify(payload),
+    subject,
+    state: "pending",
+    attempts: 0,
+    createdAt: now,
+    updatedAt: now,
+    nextAttemptAt: now,
+  }
+
+  await updateJsonFile<OutboxFile>(OUTBOX_FILE, {}, (outbox) => {
+    outbox[delivery.id] = delivery
+  })
+  return attemptDelivery(delivery)
+}
+
+/**
+ * List deliveries without their payloads
+ * @param state - Only deliveries in this state, e.g. "dead" for the dead-letter list
+ * @returns Deliveries, newest first
+ */
+export async function listDeliveries(state?: DeliveryState): Promise<DeliverySummary[]> {
+  const outbox = await readJsonFile<OutboxFile>(OUTBOX_FILE, {})
+  return Object.values(outbox)
+    .filter((delivery) => !state || delivery.state === state)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+    .map(toSummary)
+}
+
+/**
+ * Send a failed delivery again with a fresh set of attempts
+ * @param id - Delivery ID
+ * @returns The delivery after the first new attempt, or null when no such delivery exists
+ * @throws When the delivery has already been delivered
+ */
+export async function replayDelivery(id: string): Promise<DeliverySummary | null> {
+  let replayed: WebhookDelivery | undefined
+  let alreadyDelivered = false
+
+  await updateJsonFile<OutboxFile>(OUTBOX_FILE, {}, (outbox) => {
+    const delivery = outbox[id]
+    if (!delivery) return
+    if (delivery.state === "delivered") {
+      alreadyDelivered = true
+      return
+    }
+    const now = new Date().toISOString()
+    Object.assign(delivery, {
+      state: "pending",
+      attempts: 0,
+      nextAttemptAt: now,
+      updatedAt: now,
+      deadReason: undefined,
+    })
+    replayed = delivery
+  })
+
+  if (alreadyDelivered) throw new Error(`Delivery ${id} was already delivered`)
+  return replayed ? toSummary(await attemptDelivery(replayed)) : null
+}
+
+/**
+ * Retry every pending delivery whose backoff has elapsed; called on each scheduler tick
+ * @param now - Current time
+ */
+export async function deliverDueWebhooks(now = new Date()): Promise<void> {
+  const outbox = await readJsonFile<OutboxFile>(OUTBOX_FILE, {})
+  const due = Object.values(outbox).filter(
+    (delivery) =>
+      delivery.state === "pending" &&
+      !inFlight.has(delivery.id) &&
+      (!delivery.nextAttemptAt || new Date(delivery.nextAttemptAt) <= now),
+  )
+
+  for (const delivery of due) {
+    await attemptDelivery(delivery)
+  }
+}
+
+async function attemptDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  if (inFlight.has(delivery.id)) return delivery
+  inFlight.add(delivery.id)
+
+  let error: string | undefined
+  try {
+    const body = delivery.body ?? ""
+    const response = await fetchWithUrlPolicy(
+      delivery.url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "LoginAutomation/1.0",
+          ...signWebhookDelivery(resolveWebhookSecret(delivery.secretRef), body, delivery.id),
+        },
+        body,
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      },
+      "sink",
+    )
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => "")
+      error = `HTTP ${response.status}: ${errorText.substring(0, 100)}`
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  let updated = delivery
+  try {
+    await updateJsonFile<OutboxFile>(OUTBOX_FILE, {}, (outbox) => {
+      const current = outbox[delivery.id] ?? delivery
+      const now = new Date()
+      current.attempts += 1
+      current.lastAttemptAt = now.toISOString()
+      current.updatedAt = now.toISOString()
+
+      if (!error) {
+        log.info(`Webhook delivery ${current.id} sent`, { deliveryId: current.id, attempt: current.attempts })
+        current.state = "delivered"
+        current.deliveredAt = now.toISOString()
+        current.nextAttemptAt = undefined
+        current.lastError = undefined
+        current.body = undefined
+      } else if (current.attempts >= MAX_ATTEMPTS) {
+        log.error(`Webhook delivery ${current.id} failed for good`, { deliveryId: current.id, error })
+        current.state = "dead"
+        current.nextAttemptAt = undefined
+        current.lastError = error
+        current.deadReason = `Gave up after ${current.attempts} attempts: ${error}`
+      } else {
+        const backoffMs = Math.min(BASE_BACKOFF_MS * 2 ** (current.attempts - 1), MAX_BACKOFF_MS)
+        log.warn(`Webhook delivery ${current.id} failed`, { deliveryId: current.id, attempt: current.attempts, error })
+        current.lastError = error
+        current.nextAttemptAt = new Date(now.getTime() + backoffMs).toISOString()
+      }
+
+      outbox[current.id] = current
+      updated = current
+      pruneDelivered(outbox, now)
+    })
+  } finally {
+    inFlight.delete(delivery.id)
+  }
+  return updated
+}
+
+function pruneDelivered(outbox: OutboxFile, now: Date) {
+  for (const [id, delivery] of Object.entries(outbox)) {
+    if (
+      delivery.state === "delivered" &&
+      delivery.deliveredAt &&
+      now.getTime() - new Date(delivery.deliveredAt).getTime() > DELIVERED_RETENTION_MS
+    ) {
+      delete outbox[id]
+    }
+  }
+}
+
+function toSummary({ body: _body, secretRef: _secretRef, ...summary }: WebhookDelivery): DeliverySummary {
+  return summary
+}
@@ -0,0 +1,102 @@
+// HMAC-SHA256 signatures on webhook deliveries so receivers can reject forged or replayed payloads
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto"
+import { resolveEnvSecretRef } from "@/lib/secret-refs"
+
+export const WEBHOOK_ID_HEADER = "X-Webhook-Id"
+export const WEBHOOK_TIMESTAMP_HEADER = "X-Webhook-Timestamp"
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature"
+
+/** Deliveries whose timestamp is further than this from the receiver's clock are rejected */
+export const DEFAULT_REPLAY_WINDOW_SECONDS = 5 * 60
+
+const SIGNATURE_VERSION = "v1"
+const SECRET_REF_PREFIX = "WEBHOOK_SECRET_"
+
+export type WebhookVerification = { valid: true } | { valid: false; reason: string }
+
+/**
+ * Resolve the signing secret of a webhook destination
+ * @param secretRef - Name of a WEBHOOK_SECRET_* environment variable for this destination
+ * @returns The destination's secret, or WEBHOOK_SECRET when no reference is given
+ */
+export function resolveWebhookSecret(secretRef?: string): string {
+  if (secretRef) return resolveEnvSecretRef(secretRef, SECRET_REF_PREFIX)
+
+  const secret = process.env.WEBHOOK_SECRET
+  if (!secret) {
+    throw new Error("No webhook signing secret: set WEBHOOK_SECRET or send webhookSecretRef")
+  }
+  return secret
+}
+
+/**
+ * Compute the signature of a delivery: HMAC-SHA256 over "<timestamp>.<body>"
+ * @param secret - Destination's signing secret
+ * @param timestamp - Unix time in seconds the delivery was sent at
+ * @param body - Raw request body
+ * @returns Signature header value, e.g. "v1=5257a8..."
+ */
+export function computeWebhookSignature(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+  return `${SIGNATURE_VERSION}=${digest}`
+}
+
+/**
+ * Headers that sign one delivery attempt. Retries keep the delivery ID but are signed with a fresh timestamp.
+ * @param secret - Destination's signing secret
+ * @param body - Raw request body
+ * @param deliveryId - Stable ID receivers can deduplicate on
+ * @returns Headers to send with the request
+ */
+export function signWebhookDelivery(
+  secret: string,
+  body: string,
+  deliveryId: string = randomUUID(),
+): Record<string, string> {
+  const timestamp = Math.floor(Date.now() / 1000)
+  return {
+    [WEBHOOK_ID_HEADER]: deliveryId,
+    [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+    [WEBHOOK_SIGNATURE_HEADER]: computeWebhookSignature(secret, timestamp, body),
+  }
+}
+
+/**
+ * Check a received delivery: the signature must match the raw body and the timestamp must be recent
+ * @param options - Raw body, header values, shared secret and optionally the replay window and current time
+ * @returns Whether the delivery is authentic, with the reason when it is not
+ */
+export function verifyWebhookSignature({
+  body,
+  timestamp,
+  signature,
+  secret,
+  toleranceSeconds = DEFAULT_REPLAY_WINDOW_SECONDS,
+  now = Date.now(),
+}: {
+  body: string
+  timestamp: string | null | undefined
+  signature: string | null | undefined
+  secret: string
+  toleranceSeconds?: number
+  now?: number
+}): WebhookVerification {
+  if (!timestamp || !signature) {
+    return { valid: false, reason: "Missing timestamp or signature header" }
+  }
+
+  const sentAt = Number(timestamp)
+  if (!Number.isInteger(sentAt)) {
+    return { valid: false, reason: "Timestamp is not a Unix time in seconds" }
+  }
+  if (Math.abs(now / 1000 - sentAt) > toleranceSeconds) {
+    return { valid: false, reason: `Timestamp is outside the ${toleranceSeconds}s replay window` }
+  }
+
+  const expected = Buffer.from(computeWebhookSignature(secret, sentAt, body))
+  const received = Buffer.from(signature.trim())
+  const matches = received.length === expected.length && timingSafeEqual(received, expected)
+
+  return matches ? { valid: true } : { valid: false, reason: "Signature does not match" }
+}